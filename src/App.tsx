@@ -39,13 +39,25 @@ function App() {
     }
   }, [viewMode]);
 
+  // Code exported from the editor, rendered once by the API page when it
+  // mounts
+  const [exportedCode, setExportedCode] = useState<string | undefined>();
+
+  const handleExportToFormulize = (code: string) => {
+    setExportedCode(code);
+    setViewMode("formulizeAPI");
+  };
+
   return (
     <div className="flex flex-col w-full h-full">
       <Header viewMode={viewMode} setViewMode={setViewMode} />
       {viewMode === "formulizeAPI" ? (
-        <APIPage />
+        <APIPage
+          initialCode={exportedCode}
+          onInitialCodeUsed={() => setExportedCode(undefined)}
+        />
       ) : viewMode === "editor" ? (
-        <EditorPage />
+        <EditorPage onExportToFormulize={handleExportToFormulize} />
       ) : null}
     </div>
   );
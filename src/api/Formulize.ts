@@ -4,15 +4,34 @@
  * This provides a declarative API for creating interactive formula visualizations
  * as described in the Formulize API Documentation.
  */
+import { createElement } from "react";
+import { Root, createRoot } from "react-dom/client";
+
+import { convertLatexToMathML } from "../FormulaTree";
+import EmbeddedFormula from "../formula/embedded-formula";
 import {
   FormulaStore,
   formulaStoreManager,
 } from "../store/FormulaStoreManager";
+import {
+  FormulizeStores,
+  createStores,
+  defaultStores,
+} from "../store/FormulizeStores";
 import { IEnvironment } from "../types/environment";
-import { IVariable } from "../types/variable";
+import { IVariable, VariableValue } from "../types/variable";
 import { getVariable } from "../util/computation-helpers";
-import { computationStore } from "./computation";
-import { setVariable } from "./propagation";
+import {
+  ComputationEvent,
+  ComputationEventListener,
+  ComputationStore,
+  computationStore,
+} from "./computation";
+import { isEngineRegistered } from "./computation-engines/registry";
+import { DocumentFormat, loadFormulizeDocument } from "./config/loader";
+import { ExportHTMLOptions, exportStandaloneHTML } from "./html-export";
+import { deriveFormulaTree, describeFormula } from "./speech";
+import { checkEnvironmentUnits } from "./units";
 
 export interface FormulizeConfig extends IEnvironment {}
 
@@ -22,7 +41,13 @@ export interface FormulizeConfig extends IEnvironment {}
 export interface FormulizeInstance {
   environment: IEnvironment;
   getVariable: (name: string) => IVariable;
-  setVariable: (name: string, value: number) => boolean;
+  setVariable: (name: string, value: VariableValue) => boolean;
+  // Set several variables with one evaluation, returning false without
+  // setting any when one of them is unknown or dependent
+  setVariables: (values: Record<string, VariableValue>) => boolean;
+  // Run fn with its setVariable calls evaluated once when it returns, and
+  // rolled back if it or the evaluation throws
+  transaction: <T>(fn: () => T) => T;
   update: (config: FormulizeConfig) => Promise<FormulizeInstance>;
   destroy: () => void;
   getFormulaStore: (index: number) => FormulaStore | null;
@@ -32,14 +57,76 @@ export interface FormulizeInstance {
   getFormulaStoreCount: () => number;
   resetFormulaState: () => void;
   getFormulaExpression: (name: string) => string | null;
+  exportMathML: () => Promise<string[]>;
+  describeFormulas: () => string[];
+  // A self-contained HTML page of the formulas with their current values
+  exportHTML: (options?: ExportHTMLOptions) => Promise<string>;
+  // Undo or redo the last change to the variable values, returning false when
+  // there is nothing to undo or redo
+  undo: () => boolean;
+  redo: () => boolean;
+  // Subscribe to change, evaluate and error events, or to the changes of one
+  // variable. Both return a function that unsubscribes.
+  on: <E extends ComputationEvent>(
+    event: E,
+    listener: ComputationEventListener<E>
+  ) => () => void;
+  watch: (
+    name: string,
+    listener: (
+      value: VariableValue,
+      previous: VariableValue | undefined
+    ) => void
+  ) => () => void;
+}
+
+// An instance rendered into a host page container
+interface MountedInstance {
+  stores: FormulizeStores;
+  root: Root;
 }
 
+// Instances created with a container, keyed by the container id
+const mountedInstances = new Map<string, MountedInstance>();
+
 // Set up computation engine configuration
-function setupComputationEngine(environment: IEnvironment) {
+function setupComputationEngine(
+  environment: IEnvironment,
+  computationStore: ComputationStore
+) {
   computationStore.computationEngine = environment.computation.engine;
   computationStore.computationConfig = environment.computation;
 }
 
+// Resolve a container id (or selector) to its DOM element
+function resolveContainer(container: string): HTMLElement {
+  let element = document.getElementById(container);
+  if (!element) {
+    // Plain ids, e.g. starting with a digit, may not be valid selectors
+    try {
+      element = document.querySelector<HTMLElement>(container);
+    } catch {
+      element = null;
+    }
+  }
+  if (!element) {
+    throw new Error(`Container '${container}' not found`);
+  }
+  return element;
+}
+
+// Unmount an embedded instance and release its stores
+function unmountInstance(container: string) {
+  const mounted = mountedInstances.get(container);
+  if (!mounted) return;
+  mounted.root.unmount();
+  mounted.stores.computationStore.clearAllVariables();
+  mounted.stores.formulaStoreManager.clearAllStores();
+  mounted.stores.executionStore.reset();
+  mounted.stores.historyStore.dispose();
+  mountedInstances.delete(container);
+}
+
 // Validate environment configuration
 function validateEnvironment(environment: IEnvironment) {
   if (!environment) {
@@ -57,6 +144,12 @@ function validateEnvironment(environment: IEnvironment) {
   if (!environment.computation) {
     throw new Error("No computation configuration provided");
   }
+
+  if (!isEngineRegistered(environment.computation.engine)) {
+    throw new Error(
+      `Unknown computation engine "${environment.computation.engine}". Register it with registerEngine() first`
+    );
+  }
 }
 
 async function create(
@@ -66,6 +159,7 @@ async function create(
   try {
     // Validate the config
     validateEnvironment(config);
+    checkEnvironmentUnits(config);
 
     const environment: IEnvironment = {
       formulas: config.formulas,
@@ -75,6 +169,15 @@ async function create(
       controls: config.controls,
     };
 
+    // Instances with a container own an isolated set of stores,
+    // any previous instance in the same container is replaced
+    const containerElement = container ? resolveContainer(container) : null;
+    if (container) {
+      unmountInstance(container);
+    }
+    const stores = container ? createStores() : defaultStores;
+    const { computationStore, formulaStoreManager, historyStore } = stores;
+
     // Reset all state to ensure we start fresh
     // Clear computation store variables and state
     computationStore.clearAllVariables();
@@ -112,7 +215,7 @@ async function create(
     });
 
     // Set up the computation engine
-    setupComputationEngine(environment);
+    setupComputationEngine(environment, computationStore);
 
     // Store the formulas from the environment in the computation store
     computationStore.setEnvironment(environment);
@@ -134,7 +237,8 @@ async function create(
       formulaObjects.map((f) => f.function)
     );
 
-    // Set up expressions and enable evaluation
+    // Set up expressions and enable evaluation, setComputation runs the
+    // initial evaluation
     if (symbolicFunctions.length > 0 || manualFunctions.length > 0) {
       await computationStore.setComputation(symbolicFunctions, manualFunctions);
     }
@@ -142,13 +246,28 @@ async function create(
     // Clear initialization flag to enable normal evaluation
     computationStore.setInitializing(false);
 
-    // Trigger initial evaluation now that everything is set up (skip in step mode)
-    if (!computationStore.isStepMode()) {
-      computationStore.updateAllDependentVars();
-    }
+    // Changes made by a previous config can't be undone into this one
+    historyStore.clear();
 
     console.log(`Created ${formulaStores.length} individual formula stores`);
 
+    // Render the instance into its container
+    if (container && containerElement) {
+      const root = createRoot(containerElement);
+      root.render(createElement(EmbeddedFormula, { environment, stores }));
+      mountedInstances.set(container, { stores, root });
+    }
+
+    // Subscriptions made through on() and watch(), removed on destroy
+    const subscriptions = new Set<() => void>();
+    const subscribe = (unsubscribe: () => void) => {
+      subscriptions.add(unsubscribe);
+      return () => {
+        unsubscribe();
+        subscriptions.delete(unsubscribe);
+      };
+    };
+
     // Store the formulaId for setVariable method to use
     const instance = {
       environment: environment,
@@ -163,7 +282,7 @@ async function create(
         }
 
         const varId = name;
-        const computationVariable = getVariable(varId);
+        const computationVariable = getVariable(varId, computationStore);
 
         return {
           type: variable.type,
@@ -171,6 +290,7 @@ async function create(
           dataType: variable.dataType,
           dimensions: variable.dimensions,
           units: variable.units,
+          displayUnits: variable.displayUnits,
           label: variable.label,
           precision: variable.precision,
           description: variable.description,
@@ -181,7 +301,7 @@ async function create(
           key: variable.key,
         };
       },
-      setVariable: (name: string, value: number) => {
+      setVariable: (name: string, value: VariableValue) => {
         if (environment.variables) {
           const variable = environment.variables[name];
           if (variable && variable.type !== "dependent") {
@@ -191,10 +311,29 @@ async function create(
         }
         return false;
       },
+      setVariables: (values: Record<string, VariableValue>) => {
+        const settable = Object.keys(values).every((name) => {
+          const variable = environment.variables?.[name];
+          return variable && variable.type !== "dependent";
+        });
+        if (!settable) return false;
+        computationStore.setValues(values);
+        return true;
+      },
+      transaction: <T>(fn: () => T) => computationStore.transaction(fn),
       update: async (updatedConfig: FormulizeConfig) => {
         return await create(updatedConfig, container);
       },
       destroy: () => {
+        subscriptions.forEach((unsubscribe) => unsubscribe());
+        subscriptions.clear();
+        if (container) {
+          // Only tear down if this instance still owns the container
+          if (mountedInstances.get(container)?.stores === stores) {
+            unmountInstance(container);
+          }
+          return;
+        }
         // Clear all individual formula stores
         formulaStoreManager.clearAllStores();
       },
@@ -231,6 +370,40 @@ async function create(
         }
         return null;
       },
+      // Accessible output: MathML and spoken descriptions of each formula
+      exportMathML: () =>
+        Promise.all(
+          environment.formulas.map((f) => convertLatexToMathML(f.function))
+        ),
+      describeFormulas: () =>
+        environment.formulas.map((f) => {
+          const tree = deriveFormulaTree(f.function, computationStore);
+          return tree ? describeFormula(tree) : f.function;
+        }),
+      exportHTML: (options?: ExportHTMLOptions) =>
+        exportStandaloneHTML(environment, computationStore, options),
+      undo: () => historyStore.undo(),
+      redo: () => historyStore.redo(),
+      on: <E extends ComputationEvent>(
+        event: E,
+        listener: ComputationEventListener<E>
+      ) => subscribe(computationStore.on(event, listener)),
+      watch: (
+        name: string,
+        listener: (
+          value: VariableValue,
+          previous: VariableValue | undefined
+        ) => void
+      ) => {
+        if (!environment.variables?.[name]) {
+          throw new Error(`Variable '${name}' not found`);
+        }
+        return subscribe(
+          computationStore.on("change", (event) => {
+            if (event.name === name) listener(event.value, event.previous);
+          })
+        );
+      },
     };
     return instance;
   } catch (error) {
@@ -239,9 +412,24 @@ async function create(
   }
 }
 
+/**
+ * Load a serialized Formulize document (JSON or YAML) and create it
+ * @param source - Document text or an already parsed document object
+ * @param container - Optional container, as for create()
+ * @param format - The format of text sources, detected if omitted
+ */
+async function load(
+  source: string | object,
+  container?: string,
+  format?: DocumentFormat
+): Promise<FormulizeInstance> {
+  return create(loadFormulizeDocument(source, format), container);
+}
+
 // Export the Formulize API
 const Formulize = {
   create,
+  load,
 
   getFormulaStore: (index: number): FormulaStore | null => {
     const storeId = index.toString();
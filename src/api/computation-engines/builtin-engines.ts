@@ -0,0 +1,125 @@
+/**
+ * Built-in Computation Engines
+ *
+ * The symbolic-algebra, LLM and manual engines, defined with the same
+ * interface as engines registered through registerEngine().
+ */
+import { IVariable } from "../../types/variable";
+import type { EvaluationFunction } from "../computation";
+import { createSandboxedFunction } from "../sandbox";
+import {
+  generateLLMDisplayCode,
+  generateManualDisplayCode,
+  generateSymbolicAlgebraDisplayCode,
+} from "./display-code-generator";
+import { removeCachedFunction, setCachedFunction } from "./llm/function-cache";
+import {
+  describeVerificationFailure,
+  getVerificationSettings,
+  verifyGeneratedFunction,
+} from "./llm/function-verifier";
+import {
+  generateEvaluationFunction as generateLLMFunction,
+  getGeneratedFunctionHash,
+} from "./llm/llm-function-generator";
+import { computeFormulaWithManualEngine } from "./manual/manual";
+import type { ComputationEngine } from "./registry";
+import { createSymbolicFormulaEvaluator } from "./symbolic-algebra/symbolic-algebra";
+
+export const symbolicAlgebraEngine: ComputationEngine = {
+  createEvaluator: (formula, { node, getVariables }) =>
+    formula.expression
+      ? createSymbolicFormulaEvaluator(
+          formula.expression,
+          node.defines,
+          Object.keys(getVariables())
+        )
+      : null,
+  generateDisplayCode: generateSymbolicAlgebraDisplayCode,
+};
+
+export const manualEngine: ComputationEngine = {
+  createEvaluator: (formula, { node, getVariables }) => {
+    if (!formula.manual) return null;
+    return (values) => {
+      // Manual functions receive full variable definitions with the values
+      // from the evaluation scope
+      const variables: Record<string, IVariable> = {};
+      for (const [name, variable] of Object.entries(getVariables())) {
+        variables[name] = {
+          ...variable,
+          value: values[name] ?? variable.value,
+        };
+      }
+      return computeFormulaWithManualEngine(formula, node.defines, variables);
+    };
+  },
+  generateDisplayCode: (_expressions, context) =>
+    generateManualDisplayCode(context),
+  supportsStepMode: true,
+};
+
+export const llmEngine: ComputationEngine = {
+  createEvaluator: async (formula, context) => {
+    const { node, computation, getVariables, reportVerification } = context;
+    if (!formula.expression || node.defines.length === 0) return null;
+    const settings = getVerificationSettings(computation.verification);
+
+    // Regenerate the function until it passes verification or the retries
+    // run out, telling the model what was wrong each time
+    let feedback: string | undefined;
+    for (let attempts = 1; ; attempts++) {
+      const params = {
+        formula: formula.expression,
+        dependentVars: node.defines,
+        inputVars: node.reads,
+        computation,
+        feedback,
+      };
+      const functionCode = await generateLLMFunction(params);
+      const hash = getGeneratedFunctionHash(params);
+      const evaluator = createSandboxedFunction<EvaluationFunction>(
+        `function (variables) {\n${functionCode}\nreturn evaluate(variables);\n}`
+      );
+      if (!settings) {
+        if (hash) setCachedFunction(hash, functionCode, false);
+        return evaluator;
+      }
+
+      const report = verifyGeneratedFunction(evaluator, {
+        formula,
+        defines: node.defines,
+        reads: node.reads,
+        variables: getVariables(),
+        settings,
+        attempts,
+      });
+      // Only verified functions are stored across loads, a rejected one would
+      // otherwise be reused, rejected and regenerated on every load. Ones
+      // nothing could be checked against are kept for the session.
+      if (hash) {
+        if (report.passed) {
+          setCachedFunction(hash, functionCode, report.method !== "none");
+        } else {
+          removeCachedFunction(hash);
+        }
+      }
+      if (!report.passed && attempts <= settings.retries) {
+        feedback = describeVerificationFailure(report);
+        continue;
+      }
+      reportVerification(report);
+      if (report.passed || settings.onMismatch === "warn") return evaluator;
+      throw new Error(
+        `Generated function failed verification after ${attempts} attempt(s):\n${describeVerificationFailure(report)}`
+      );
+    }
+  },
+  generateDisplayCode: (expressions, { evaluators }) =>
+    generateLLMDisplayCode(
+      Array.from(evaluators.values())
+        .map((evaluator) => evaluator.toString())
+        .join("\n\n"),
+      expressions
+    ),
+};
@@ -0,0 +1,308 @@
+/**
+ * Equation Solver for Formulize
+ *
+ * Isolates an unknown in an equation so that any variable of a formula can be
+ * computed from the others. The equation is first rearranged symbolically by
+ * inverting the operations applied to the unknown; when that is not possible
+ * (e.g. the unknown appears on both sides of a non-linear equation) the value
+ * is found numerically with Newton's method and a bracketing fallback.
+ */
+import * as math from "mathjs";
+
+import { VariableValue } from "../../types/variable";
+import { toScalar } from "../../util/variable-value";
+import { splitEquation } from "../dependencyGraph";
+
+export interface EquationSolver {
+  // Expression that isolates the unknown, or null when solved numerically
+  rearranged: string | null;
+  solve: (scope: Record<string, VariableValue>) => number | null;
+}
+
+const MAX_NEWTON_ITERATIONS = 50;
+const MAX_BISECTION_ITERATIONS = 200;
+const TOLERANCE = 1e-12;
+
+// Inverse of single-argument functions: f(x) = other  =>  x = inverse(other)
+const FUNCTION_INVERSES: Record<string, (other: string) => string> = {
+  sqrt: (other) => `(${other}) ^ 2`,
+  cbrt: (other) => `(${other}) ^ 3`,
+  exp: (other) => `log(${other})`,
+  log: (other) => `exp(${other})`,
+  log10: (other) => `10 ^ (${other})`,
+  log2: (other) => `2 ^ (${other})`,
+  sin: (other) => `asin(${other})`,
+  cos: (other) => `acos(${other})`,
+  tan: (other) => `atan(${other})`,
+  asin: (other) => `sin(${other})`,
+  acos: (other) => `cos(${other})`,
+  atan: (other) => `tan(${other})`,
+  sinh: (other) => `asinh(${other})`,
+  cosh: (other) => `acosh(${other})`,
+  tanh: (other) => `atanh(${other})`,
+};
+
+/**
+ * Counts the occurrences of a variable in an expression tree, ignoring
+ * function names that happen to share the variable's name
+ */
+function countOccurrences(node: math.MathNode, name: string): number {
+  return node.filter(
+    (child, path) =>
+      child.type === "SymbolNode" &&
+      (child as math.SymbolNode).name === name &&
+      path !== "fn"
+  ).length;
+}
+
+/**
+ * Symbolically isolates a variable that appears exactly once in `side`
+ * @returns The expression equal to the variable, or null if an operation
+ * along the way cannot be inverted
+ */
+function isolate(
+  side: math.MathNode,
+  other: string,
+  name: string
+): string | null {
+  let node = side;
+  let result = other;
+
+  while (
+    !(node.type === "SymbolNode" && (node as math.SymbolNode).name === name)
+  ) {
+    if (node.type === "ParenthesisNode") {
+      node = (node as math.ParenthesisNode).content;
+      continue;
+    }
+
+    if (node.type === "OperatorNode") {
+      const { op, args } = node as math.OperatorNode;
+      if (args.length === 1) {
+        if (op === "-") result = `-(${result})`;
+        else if (op !== "+") return null;
+        node = args[0];
+        continue;
+      }
+      if (args.length !== 2) return null;
+
+      const [a, b] = args;
+      const inLeft = countOccurrences(a, name) > 0;
+      const known = (inLeft ? b : a).toString();
+      switch (op) {
+        case "+":
+          result = `(${result}) - (${known})`;
+          break;
+        case "-":
+          result = inLeft
+            ? `(${result}) + (${known})`
+            : `(${known}) - (${result})`;
+          break;
+        case "*":
+          result = `(${result}) / (${known})`;
+          break;
+        case "/":
+          result = inLeft
+            ? `(${result}) * (${known})`
+            : `(${known}) / (${result})`;
+          break;
+        case "^":
+          result = inLeft
+            ? `(${result}) ^ (1 / (${known}))`
+            : `log(${result}) / log(${known})`;
+          break;
+        default:
+          return null;
+      }
+      node = inLeft ? a : b;
+      continue;
+    }
+
+    if (node.type === "FunctionNode") {
+      const { fn, args } = node as math.FunctionNode;
+      const fnName = fn.name;
+      if (fnName === "log" && args.length === 2) {
+        // log(x, base) = other  =>  x = base ^ other
+        if (countOccurrences(args[1], name) > 0) return null;
+        result = `(${args[1].toString()}) ^ (${result})`;
+        node = args[0];
+        continue;
+      }
+      const inverse = FUNCTION_INVERSES[fnName];
+      if (!inverse || args.length !== 1) return null;
+      result = inverse(result);
+      node = args[0];
+      continue;
+    }
+
+    return null;
+  }
+
+  return result;
+}
+
+/**
+ * Rearranges an equation so that the given variable stands alone
+ * @returns An expression equal to the variable, or null if it cannot be isolated
+ */
+export function rearrangeEquation(
+  equation: string,
+  solveFor: string
+): string | null {
+  const sides = splitEquation(equation);
+  if (!sides) return null;
+
+  try {
+    let [left, right] = sides.map((side) => math.parse(side));
+
+    // Collect repeated factors (e.g. v * v -> v ^ 2) before giving up
+    if (
+      countOccurrences(left, solveFor) + countOccurrences(right, solveFor) >
+      1
+    ) {
+      left = math.simplify(left);
+      right = math.simplify(right);
+    }
+
+    const leftCount = countOccurrences(left, solveFor);
+    const rightCount = countOccurrences(right, solveFor);
+    if (leftCount + rightCount !== 1) return null;
+
+    const isolated =
+      leftCount === 1
+        ? isolate(left, right.toString(), solveFor)
+        : isolate(right, left.toString(), solveFor);
+    return isolated === null
+      ? null
+      : math.parse(isolated).toString({ parenthesis: "auto" });
+  } catch (error) {
+    console.debug(`Could not rearrange ${equation} for ${solveFor}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Finds a root of a function near an initial guess using Newton's method,
+ * falling back to bisection within a bracket found by expanding outwards
+ */
+export function findRoot(
+  f: (x: number) => number,
+  initialGuess: number = 1
+): number | null {
+  const guess = isFinite(initialGuess) ? initialGuess : 1;
+
+  // Newton's method with a central difference derivative
+  let x = guess;
+  for (let i = 0; i < MAX_NEWTON_ITERATIONS; i++) {
+    const fx = f(x);
+    if (!isFinite(fx)) break;
+    if (Math.abs(fx) < TOLERANCE) return x;
+    const h = 1e-6 * Math.max(1, Math.abs(x));
+    const derivative = (f(x + h) - f(x - h)) / (2 * h);
+    if (!isFinite(derivative) || derivative === 0) break;
+    const next = x - fx / derivative;
+    if (!isFinite(next)) break;
+    if (Math.abs(next - x) < TOLERANCE * Math.max(1, Math.abs(x))) {
+      return Math.abs(f(next)) < 1e-6 ? next : null;
+    }
+    x = next;
+  }
+
+  // Expand outwards from the guess until the sign changes, then bisect
+  const fGuess = f(guess);
+  if (!isFinite(fGuess)) return null;
+  for (let step = 1e-3 * Math.max(1, Math.abs(guess)); step < 1e12; step *= 2) {
+    for (const candidate of [guess - step, guess + step]) {
+      const fCandidate = f(candidate);
+      if (!isFinite(fCandidate)) continue;
+      if (Math.sign(fCandidate) !== Math.sign(fGuess)) {
+        return bisect(
+          f,
+          Math.min(guess, candidate),
+          Math.max(guess, candidate)
+        );
+      }
+    }
+  }
+
+  return null;
+}
+
+function bisect(f: (x: number) => number, low: number, high: number): number {
+  let fLow = f(low);
+  for (let i = 0; i < MAX_BISECTION_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    const fMid = f(mid);
+    if (Math.abs(fMid) < TOLERANCE || high - low < TOLERANCE) return mid;
+    if (Math.sign(fMid) === Math.sign(fLow)) {
+      low = mid;
+      fLow = fMid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Creates a solver that computes the given variable from an equation in
+ * math.js syntax, rearranging it symbolically where possible
+ * @returns The solver, or null if the equation cannot be parsed
+ */
+export function createEquationSolver(
+  equation: string,
+  solveFor: string
+): EquationSolver | null {
+  const sides = splitEquation(equation);
+  if (!sides) return null;
+
+  let residual: math.EvalFunction;
+  try {
+    residual = math.parse(`(${sides[0]}) - (${sides[1]})`).compile();
+  } catch (error) {
+    console.debug(`Could not parse equation ${equation}:`, error);
+    return null;
+  }
+
+  const rearranged = rearrangeEquation(equation, solveFor);
+  const isolated = rearranged ? math.parse(rearranged).compile() : null;
+
+  const evaluateResidual = (
+    scope: Record<string, VariableValue>,
+    x: number
+  ) => {
+    const value = residual.evaluate({ ...scope, [solveFor]: x });
+    return typeof value === "number" ? value : NaN;
+  };
+
+  return {
+    rearranged,
+    solve: (scope) => {
+      try {
+        if (isolated) {
+          const value = isolated.evaluate({ ...scope });
+          if (typeof value === "number" && isFinite(value)) {
+            // Even powers have two roots, keep the sign of the previous value
+            const previous = toScalar(scope[solveFor]);
+            const flipped = -value;
+            if (
+              previous < 0 &&
+              value > 0 &&
+              Math.abs(evaluateResidual(scope, flipped)) < 1e-9
+            ) {
+              return flipped;
+            }
+            return value;
+          }
+        }
+        return findRoot(
+          (x) => evaluateResidual(scope, x),
+          toScalar(scope[solveFor], 1)
+        );
+      } catch (error) {
+        console.debug(`Could not solve ${equation} for ${solveFor}:`, error);
+        return null;
+      }
+    },
+  };
+}
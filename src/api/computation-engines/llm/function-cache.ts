@@ -0,0 +1,105 @@
+/**
+ * Cache for LLM-generated functions
+ *
+ * Generated code is stored by a hash of the formula, its variables and the
+ * provider settings, in memory and in localStorage, so that reloading a page
+ * reuses the same function instead of billing for and possibly changing it.
+ * Functions that weren't verified are only kept in memory for the session.
+ */
+
+const STORAGE_PREFIX = "formulize:llm:";
+
+const memoryCache = new Map<string, string>();
+
+export interface FunctionCacheKey {
+  provider: string;
+  model?: string;
+  // Servers that serve the same model name may still differ
+  endpoint?: string;
+  formula: string;
+  dependentVars: string[];
+  inputVars: string[];
+}
+
+/**
+ * Hashes a string with 53-bit cyrb53, returned as hex
+ */
+export function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+export function getFormulaHash(key: FunctionCacheKey): string {
+  return hashString(
+    JSON.stringify([
+      key.provider,
+      key.model ?? "",
+      key.endpoint ?? "",
+      key.formula,
+      [...key.dependentVars].sort(),
+      [...key.inputVars].sort(),
+    ])
+  );
+}
+
+// localStorage may be unavailable (private mode, sandboxed frames, Node)
+const getStorage = (): Storage | null => {
+  try {
+    return typeof localStorage === "undefined" ? null : localStorage;
+  } catch {
+    return null;
+  }
+};
+
+export function getCachedFunction(hash: string): string | null {
+  const cached = memoryCache.get(hash);
+  if (cached !== undefined) return cached;
+  const stored = getStorage()?.getItem(STORAGE_PREFIX + hash) ?? null;
+  if (stored !== null) memoryCache.set(hash, stored);
+  return stored;
+}
+
+/**
+ * @param persist - Whether to also store the function in localStorage
+ */
+export function setCachedFunction(
+  hash: string,
+  code: string,
+  persist: boolean = true
+): void {
+  memoryCache.set(hash, code);
+  if (!persist) return;
+  try {
+    getStorage()?.setItem(STORAGE_PREFIX + hash, code);
+  } catch (error) {
+    console.warn("⚠️ Could not store generated function:", error);
+  }
+}
+
+export function removeCachedFunction(hash: string): void {
+  memoryCache.delete(hash);
+  getStorage()?.removeItem(STORAGE_PREFIX + hash);
+}
+
+/**
+ * Removes every cached function, in memory and in localStorage
+ */
+export function clearFunctionCache(): void {
+  memoryCache.clear();
+  const storage = getStorage();
+  if (!storage) return;
+  const keys = Array.from({ length: storage.length }, (_, i) => storage.key(i));
+  for (const key of keys) {
+    if (key?.startsWith(STORAGE_PREFIX)) storage.removeItem(key);
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * Verification of LLM-generated Functions
+ *
+ * Before a generated evaluation function is used, it is run on the formula's
+ * sample points, or on random inputs within each variable's range and
+ * compared with the symbolic-algebra engine.
+ */
+import { IVerification } from "../../../types/computation";
+import { IFormula } from "../../../types/formula";
+import {
+  INPUT_VARIABLE_DEFAULT,
+  IVariable,
+  VariableValue,
+} from "../../../types/variable";
+import type { EvaluationFunction } from "../../computation";
+import { createSymbolicFormulaEvaluator } from "../symbolic-algebra/symbolic-algebra";
+
+export interface VerificationCheck {
+  inputs: Record<string, VariableValue>;
+  expected: Record<string, VariableValue>;
+  actual: Record<string, VariableValue>;
+  passed: boolean;
+  error?: string;
+}
+
+export interface VerificationReport {
+  formulaName: string;
+  // What the function was compared with; "none" when nothing could be checked
+  method: "samples" | "symbolic" | "none";
+  passed: boolean;
+  // Number of times the function was generated
+  attempts: number;
+  checks: VerificationCheck[];
+  message?: string;
+}
+
+export interface VerifyFunctionOptions {
+  formula: IFormula;
+  // Variables the formula defines and reads
+  defines: string[];
+  reads: string[];
+  variables: Record<string, IVariable>;
+  settings: Required<IVerification>;
+  attempts: number;
+}
+
+export const DEFAULT_VERIFICATION: Required<IVerification> = {
+  trials: 10,
+  tolerance: 1e-6,
+  retries: 2,
+  onMismatch: "reject",
+};
+
+// Maximum failing checks described in messages and retry prompts
+const MAX_DESCRIBED_FAILURES = 3;
+
+/**
+ * Returns the verification settings with defaults applied, or null when
+ * verification is turned off
+ */
+export function getVerificationSettings(
+  verification: IVerification | false | undefined
+): Required<IVerification> | null {
+  if (verification === false) return null;
+  return { ...DEFAULT_VERIFICATION, ...verification };
+}
+
+// Random value within the variable's range, with the shape of its value.
+// Constants keep their value.
+function randomValue(variable: IVariable | undefined): VariableValue {
+  if (variable?.type === "constant" && variable.value !== undefined) {
+    return variable.value;
+  }
+  const [min, max] = variable?.range ?? [
+    INPUT_VARIABLE_DEFAULT.MIN_VALUE,
+    INPUT_VARIABLE_DEFAULT.MAX_VALUE,
+  ];
+  const pick = () => min + Math.random() * (max - min);
+  const value = variable?.value;
+  if (Array.isArray(value)) {
+    return value.map((item) =>
+      Array.isArray(item) ? item.map(pick) : pick()
+    ) as VariableValue;
+  }
+  return pick();
+}
+
+function valuesMatch(
+  expected: VariableValue,
+  actual: unknown,
+  tolerance: number
+): boolean {
+  if (typeof expected === "number") {
+    if (typeof actual !== "number") return false;
+    if (expected === actual) return true;
+    if (Number.isNaN(expected)) return Number.isNaN(actual);
+    const scale = Math.max(1, Math.abs(expected), Math.abs(actual));
+    return Math.abs(expected - actual) <= tolerance * scale;
+  }
+  return (
+    Array.isArray(actual) &&
+    actual.length === expected.length &&
+    expected.every((item, index) => valuesMatch(item, actual[index], tolerance))
+  );
+}
+
+function runCheck(
+  evaluator: EvaluationFunction,
+  inputs: Record<string, VariableValue>,
+  expected: Record<string, VariableValue>,
+  tolerance: number
+): VerificationCheck {
+  try {
+    const actual = evaluator(inputs) ?? {};
+    const mismatched = Object.keys(expected).filter(
+      (name) => !valuesMatch(expected[name], actual[name], tolerance)
+    );
+    return {
+      inputs,
+      expected,
+      actual,
+      passed: mismatched.length === 0,
+      error:
+        mismatched.length > 0
+          ? `Wrong value for ${mismatched.join(", ")}`
+          : undefined,
+    };
+  } catch (error) {
+    return {
+      inputs,
+      expected,
+      actual: {},
+      passed: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+const formatValues = (values: Record<string, VariableValue>) =>
+  Object.entries(values)
+    .map(([name, value]) => `${name} = ${JSON.stringify(value)}`)
+    .join(", ");
+
+/**
+ * Describes the failing checks of a report, e.g. for a retry prompt
+ */
+export function describeVerificationFailure(
+  report: VerificationReport
+): string {
+  return report.checks
+    .filter((check) => !check.passed)
+    .slice(0, MAX_DESCRIBED_FAILURES)
+    .map((check) =>
+      check.error && Object.keys(check.actual).length === 0
+        ? `With ${formatValues(check.inputs)} the function threw: ${check.error}`
+        : `With ${formatValues(check.inputs)} expected ${formatValues(check.expected)} but got ${formatValues(check.actual)}`
+    )
+    .join("\n");
+}
+
+// Checks for random inputs compared with the symbolic-algebra engine
+function createSymbolicChecks(
+  evaluator: EvaluationFunction,
+  options: VerifyFunctionOptions
+): VerificationCheck[] | null {
+  const { formula, defines, reads, variables, settings } = options;
+  if (!formula.expression) return null;
+  let reference: EvaluationFunction;
+  try {
+    reference = createSymbolicFormulaEvaluator(
+      formula.expression,
+      defines,
+      Object.keys(variables)
+    );
+  } catch {
+    return null;
+  }
+
+  const checks: VerificationCheck[] = [];
+  for (let trial = 0; trial < settings.trials; trial++) {
+    const inputs = Object.fromEntries(
+      reads.map((name) => [name, randomValue(variables[name])])
+    );
+    let expected: Record<string, VariableValue>;
+    try {
+      expected = reference(inputs);
+    } catch {
+      continue;
+    }
+    // Skip inputs the symbolic engine can't evaluate
+    if (defines.some((name) => expected[name] === undefined)) continue;
+    checks.push(runCheck(evaluator, inputs, expected, settings.tolerance));
+  }
+  return checks;
+}
+
+/**
+ * Checks a generated evaluation function against the formula's sample points
+ * or, when it has none, against the symbolic-algebra engine
+ */
+export function verifyGeneratedFunction(
+  evaluator: EvaluationFunction,
+  options: VerifyFunctionOptions
+): VerificationReport {
+  const { formula, reads, variables, settings, attempts } = options;
+  const report = (
+    method: VerificationReport["method"],
+    checks: VerificationCheck[],
+    message?: string
+  ): VerificationReport => {
+    const passed = checks.every((check) => check.passed);
+    return {
+      formulaName: formula.name,
+      method,
+      passed,
+      attempts,
+      checks,
+      message,
+    };
+  };
+
+  if (formula.samples && formula.samples.length > 0) {
+    const current = Object.fromEntries(
+      reads
+        .filter((name) => variables[name]?.value !== undefined)
+        .map((name) => [name, variables[name].value as VariableValue])
+    );
+    const checks = formula.samples.map((sample) =>
+      runCheck(
+        evaluator,
+        { ...current, ...sample.inputs },
+        sample.expected,
+        settings.tolerance
+      )
+    );
+    return report("samples", checks);
+  }
+
+  const checks = createSymbolicChecks(evaluator, options);
+  if (!checks || checks.length === 0) {
+    return report(
+      "none",
+      [],
+      "The symbolic-algebra engine could not evaluate this formula and it has no sample points, so the function was not checked"
+    );
+  }
+  return report("symbolic", checks);
+}
@@ -2,19 +2,54 @@
  * LLM Function Generator
  *
  * Handles generating JavaScript evaluation functions from mathematical formulas
- * using OpenAI's API for natural language processing.
+ * with the language model provider selected in the computation config.
+ * Cached functions are reused; the LLM engine caches a generated function
+ * once it has passed verification.
  */
+import { IComputation } from "../../../types/computation";
+import { getCachedFunction, getFormulaHash } from "./function-cache";
+import { getAllLLMProviders, getLLMProvider } from "./providers";
 
 export interface GenerateFunctionParams {
   formula: string;
   dependentVars: string[];
   inputVars: string[];
+  computation?: IComputation;
+  // Why the previous attempt was rejected, added to the prompt when retrying
+  feedback?: string;
 }
 
+/**
+ * Hash of the function generated for these parameters in the function cache,
+ * null when the provider's replies aren't cached
+ */
+export function getGeneratedFunctionHash({
+  formula,
+  dependentVars,
+  inputVars,
+  computation,
+}: GenerateFunctionParams): string | null {
+  const providerName = computation?.provider ?? "openai";
+  if (getLLMProvider(providerName)?.cacheable === false) return null;
+  return getFormulaHash({
+    provider: providerName,
+    model: computation?.model,
+    endpoint: computation?.endpoint,
+    formula,
+    dependentVars,
+    inputVars,
+  });
+}
+
+const SYSTEM_PROMPT =
+  "You are a precise code generator that creates JavaScript functions to evaluate mathematical formulas. Return ONLY the function code without any explanation or markdown.";
+
 export async function generateEvaluationFunction({
   formula,
   dependentVars,
   inputVars,
+  computation,
+  feedback,
 }: GenerateFunctionParams): Promise<string> {
   // Validate inputs
   if (!formula?.trim()) {
@@ -25,47 +60,45 @@ export async function generateEvaluationFunction({
     throw new Error("Cannot generate function without dependent variables");
   }
 
-  console.log("🔥 Generating function via OpenAI API for formula:", formula);
-  console.log("🔵 Variables:", { dependentVars, inputVars });
+  const providerName = computation?.provider ?? "openai";
+  const provider = getLLMProvider(providerName);
+  if (!provider) {
+    throw new Error(
+      `Unknown LLM provider "${providerName}" (registered: ${getAllLLMProviders().join(", ")})`
+    );
+  }
 
-  const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("OpenAI API key not configured");
+  const hash = getGeneratedFunctionHash({
+    formula,
+    dependentVars,
+    inputVars,
+    computation,
+  });
+  // A retry must not get the rejected function back from the cache
+  const cached = hash && !feedback ? getCachedFunction(hash) : null;
+  if (cached) {
+    console.log(`♻️ Using cached function ${hash} for formula:`, formula);
+    return cached;
   }
 
+  console.log(
+    `🔥 Generating function via ${providerName} for formula:`,
+    formula
+  );
+  console.log("🔵 Variables:", { dependentVars, inputVars });
+
   try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are a precise code generator that creates JavaScript functions to evaluate mathematical formulas. Return ONLY the function code without any explanation or markdown.",
-          },
-          {
-            role: "user",
-            content: buildPrompt(formula, inputVars, dependentVars),
-          },
-        ],
-        temperature: 0.1,
-      }),
+    const reply = await provider.complete({
+      system: SYSTEM_PROMPT,
+      prompt: buildPrompt(formula, inputVars, dependentVars, feedback),
+      formula,
+      dependentVars,
+      inputVars,
+      model: computation?.model,
+      apiKey: computation?.apiKey,
+      endpoint: computation?.endpoint,
     });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(
-        `API error: ${errorData.error?.message || "Unknown error"}`
-      );
-    }
-
-    const result = await response.json();
-    const generatedCode = result.choices[0].message.content.trim();
+    const generatedCode = extractCode(reply);
 
     validateGeneratedCode(generatedCode, dependentVars, inputVars, formula);
 
@@ -77,11 +110,21 @@ export async function generateEvaluationFunction({
   }
 }
 
+// Local models often wrap code in markdown fences despite the prompt
+function extractCode(reply: string): string {
+  const fenced = reply.match(/```(?:[a-z]*)\n([\s\S]*?)```/i);
+  return (fenced ? fenced[1] : reply).trim();
+}
+
 function buildPrompt(
   formula: string,
   inputVars: string[],
-  dependentVars: string[]
+  dependentVars: string[],
+  feedback?: string
 ): string {
+  const retry = feedback
+    ? `\n\nA previous attempt computed wrong results:\n${feedback}\nFix the function so it evaluates the formula exactly.`
+    : "";
   return `Create a JavaScript function that evaluates this formula: ${formula}
 Input variables: ${inputVars.join(", ")}
 Dependent variables to calculate: ${dependentVars.join(", ")}
@@ -93,6 +136,7 @@ Requirements:
 4. Returns object with computed values for dependent variables
 5. Must handle division by zero and invalid operations
 6. Return ONLY the function code
+7. Use ES5 syntax only (var, function expressions; no let, const or arrow functions) because the code runs in a sandboxed interpreter
 
 Example structure (NOT the formula to implement):
 function evaluate(variables) {
@@ -105,7 +149,7 @@ function evaluate(variables) {
       output: NaN
     };
   }
-}`;
+}${retry}`;
 }
 
 function validateGeneratedCode(
@@ -0,0 +1,157 @@
+/**
+ * LLM Providers
+ *
+ * Providers send the code generation prompt to a language model and return
+ * its reply. The llm engine picks one with `computation.provider`:
+ * - "openai": any OpenAI-compatible chat completions endpoint (default)
+ * - "ollama": a local Ollama-style server
+ * - "fixture": canned replies, for tests and offline use
+ */
+
+export interface LLMRequest {
+  system: string;
+  prompt: string;
+  // The formula and variables the prompt was built from
+  formula: string;
+  dependentVars: string[];
+  inputVars: string[];
+  // Settings from the computation config
+  model?: string;
+  apiKey?: string;
+  endpoint?: string;
+}
+
+export interface LLMProvider {
+  // Sends the request and resolves to the model's reply
+  complete: (request: LLMRequest) => Promise<string>;
+  // Whether replies may be cached by formula hash (default true)
+  cacheable?: boolean;
+}
+
+export const OPENAI_ENDPOINT = "https://api.openai.com/v1/chat/completions";
+export const OPENAI_DEFAULT_MODEL = "gpt-4";
+export const OLLAMA_ENDPOINT = "http://localhost:11434";
+export const OLLAMA_DEFAULT_MODEL = "llama3";
+
+const TEMPERATURE = 0.1;
+
+const buildMessages = ({ system, prompt }: LLMRequest) => [
+  { role: "system", content: system },
+  { role: "user", content: prompt },
+];
+
+// Reads the error message from a failed response
+async function readError(response: Response): Promise<string> {
+  try {
+    const errorData = await response.json();
+    return errorData.error?.message ?? errorData.error ?? response.statusText;
+  } catch {
+    return response.statusText || `HTTP ${response.status}`;
+  }
+}
+
+/**
+ * Creates a provider for an OpenAI-compatible chat completions endpoint
+ */
+export function createOpenAIProvider(): LLMProvider {
+  return {
+    complete: async (request) => {
+      const endpoint = request.endpoint ?? OPENAI_ENDPOINT;
+      const apiKey = request.apiKey ?? import.meta.env.VITE_OPENAI_API_KEY;
+      if (!apiKey && endpoint === OPENAI_ENDPOINT) {
+        throw new Error("OpenAI API key not configured");
+      }
+
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: request.model ?? OPENAI_DEFAULT_MODEL,
+          messages: buildMessages(request),
+          temperature: TEMPERATURE,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`API error: ${await readError(response)}`);
+      }
+      const result = await response.json();
+      return result.choices[0].message.content;
+    },
+  };
+}
+
+/**
+ * Creates a provider for an Ollama-style local server (POST /api/chat)
+ */
+export function createOllamaProvider(): LLMProvider {
+  return {
+    complete: async (request) => {
+      const endpoint = (request.endpoint ?? OLLAMA_ENDPOINT).replace(/\/$/, "");
+      const response = await fetch(`${endpoint}/api/chat`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model: request.model ?? OLLAMA_DEFAULT_MODEL,
+          messages: buildMessages(request),
+          stream: false,
+          options: { temperature: TEMPERATURE },
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Local model error: ${await readError(response)}`);
+      }
+      const result = await response.json();
+      return result.message.content;
+    },
+  };
+}
+
+/**
+ * Creates a provider that replies with fixed code for each formula
+ * @param fixtures - Generated code keyed by formula expression, or a function
+ * returning the code for a request
+ */
+export function createFixtureProvider(
+  fixtures: Record<string, string> | ((request: LLMRequest) => string) = {}
+): LLMProvider {
+  return {
+    cacheable: false,
+    complete: async (request) => {
+      const reply =
+        typeof fixtures === "function"
+          ? fixtures(request)
+          : fixtures[request.formula];
+      if (reply === undefined) {
+        throw new Error(
+          `No fixture for formula "${request.formula}". Register one with registerLLMProvider("fixture", createFixtureProvider({ ... }))`
+        );
+      }
+      return reply;
+    },
+  };
+}
+
+// Registry for LLM providers - starts with the built-in providers
+const PROVIDER_REGISTRY: Record<string, LLMProvider> = {
+  openai: createOpenAIProvider(),
+  ollama: createOllamaProvider(),
+  fixture: createFixtureProvider(),
+};
+
+// Register an LLM provider, replacing any provider with the same name
+export const registerLLMProvider = (name: string, provider: LLMProvider) => {
+  PROVIDER_REGISTRY[name] = provider;
+};
+
+// Get a registered provider
+export const getLLMProvider = (name: string): LLMProvider | undefined => {
+  return PROVIDER_REGISTRY[name];
+};
+
+// Get all registered provider names
+export const getAllLLMProviders = (): string[] => {
+  return Object.keys(PROVIDER_REGISTRY);
+};
@@ -15,6 +15,8 @@ declare global {
 interface JSInterpreter {
   step(): boolean;
   run(): boolean;
+  // Append a program, as source or a parsed AST, to run after the current one
+  appendCode(code: string | object): void;
   value: unknown;
   getStateStack(): unknown[];
   getGlobalScope(): unknown;
@@ -31,7 +33,7 @@ interface JSInterpreter {
 
 interface InterpreterConstructor {
   new (
-    code: string,
+    code: string | object,
     initFunc?: (interpreter: JSInterpreter, globalObject: unknown) => void
   ): JSInterpreter;
 }
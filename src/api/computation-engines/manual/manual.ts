@@ -5,16 +5,58 @@
  * custom JavaScript functions for computing dependent variables.
  */
 import { IEnvironment } from "../../../types/environment";
+import { IFormula } from "../../../types/formula";
+import { IVariable, VariableValue } from "../../../types/variable";
+import { isValidValue } from "../../../util/variable-value";
+import { buildDependencyGraph, evaluateInOrder } from "../../dependencyGraph";
+
+/**
+ * Computes the variables defined by a single formula's manual function
+ *
+ * @param formula The formula with a manual function
+ * @param definedVars Names of the dependent variables the formula defines
+ * @param variables The full variable definitions with current values
+ * @returns An object with the computed values of the defined variables
+ */
+export function computeFormulaWithManualEngine(
+  formula: IFormula,
+  definedVars: string[],
+  variables: Record<string, IVariable>
+): Record<string, VariableValue> {
+  if (!formula.manual || typeof formula.manual !== "function") return {};
+
+  const computedValue = formula.manual(variables);
+
+  // Validate the result
+  const isFiniteResult =
+    typeof computedValue === "number"
+      ? isFinite(computedValue)
+      : isValidValue(computedValue);
+  if (!isFiniteResult) {
+    console.warn(
+      `⚠️ Manual function for formula "${formula.name}" did not return a finite number, vector or matrix`
+    );
+    return {};
+  }
+
+  const result: Record<string, VariableValue> = {};
+  for (const definedVar of definedVars) {
+    result[definedVar] = computedValue;
+  }
+  return result;
+}
 
 /**
  * Computes the formula with the given variable values using custom JavaScript functions
+ * Manual functions are executed in the topological order of the formulas'
+ * dependency graph, and each one only sets the variable its formula defines
  *
  * @param environment The Formulize environment
  * @returns An object with updated dependent variable values
  */
 export function computeWithManualEngine(
   environment: IEnvironment
-): Record<string, number> {
+): Record<string, VariableValue> {
   try {
     // Validate environment has proper structure
     if (!environment || !environment.variables) {
@@ -39,43 +81,31 @@ export function computeWithManualEngine(
       return {};
     }
 
-    const result: Record<string, number> = {};
-
-    // Find formulas with manual functions
-    const formulasWithManualFunctions = environment.formulas.filter(
-      (formula) => formula.manual && typeof formula.manual === "function"
+    const graph = buildDependencyGraph(
+      environment.formulas,
+      environment.variables
     );
 
-    if (formulasWithManualFunctions.length === 0) {
-      console.warn("⚠️ No formulas with manual functions found");
-      return {};
+    const values: Record<string, VariableValue> = {};
+    for (const [varName, varDef] of Object.entries(environment.variables)) {
+      values[varName] = varDef.value ?? 0;
     }
 
-    // Execute manual functions for each dependent variable
-    for (const dependentVar of dependentVars) {
-      let computed = false;
-
-      // Try to find a formula that can compute this dependent variable
-      for (const formula of formulasWithManualFunctions) {
-        try {
-          // Execute the manual function with the full variable definitions
-          const computedValue = formula.manual!(environment.variables);
-
-          // Validate the result
-          if (typeof computedValue === "number" && isFinite(computedValue)) {
-            result[dependentVar] = computedValue;
-            computed = true;
-            break; // Use the first formula that successfully computes this variable
-          }
-        } catch (error) {
-          console.error(
-            `Error executing manual function for formula "${formula.name}":`,
-            error
-          );
-        }
+    const result = evaluateInOrder(graph.order, values, (node, scope) => {
+      // Give each manual function the values computed by upstream formulas
+      const variables: Record<string, IVariable> = {};
+      for (const [varName, varDef] of Object.entries(environment.variables)) {
+        variables[varName] = { ...varDef, value: scope[varName] };
       }
+      return computeFormulaWithManualEngine(
+        environment.formulas[node.index],
+        node.defines,
+        variables
+      );
+    });
 
-      if (!computed) {
+    for (const dependentVar of dependentVars) {
+      if (!(dependentVar in result)) {
         console.warn(
           `⚠️ No valid manual function found for dependent variable: ${dependentVar}`
         );
@@ -0,0 +1,78 @@
+import { IComputation } from "../../types/computation";
+import { IEnvironment } from "../../types/environment";
+import { IFormula } from "../../types/formula";
+import { IVariable } from "../../types/variable";
+import type { EvaluationFunction } from "../computation";
+import { FormulaDependencies } from "../dependencyGraph";
+import {
+  llmEngine,
+  manualEngine,
+  symbolicAlgebraEngine,
+} from "./builtin-engines";
+import { DisplayCodeGeneratorContext } from "./display-code-generator";
+import type { VerificationReport } from "./llm/function-verifier";
+
+export interface EngineEvaluatorContext {
+  // The variables the formula reads and defines
+  node: FormulaDependencies;
+  computation: IComputation;
+  environment: IEnvironment | null;
+  // Current variable definitions; evaluators receive up-to-date values
+  getVariables: () => Record<string, IVariable>;
+  // Shows how the evaluator was checked in the evaluation function pane
+  reportVerification: (report: VerificationReport) => void;
+}
+
+export interface EngineDisplayCodeContext extends DisplayCodeGeneratorContext {
+  // Evaluators the engine created, keyed by formula name
+  evaluators: Map<string, EvaluationFunction>;
+}
+
+export interface ComputationEngine {
+  // Creates the evaluator for one formula, or null when the engine does not
+  // compute it. The evaluator returns values for the variables it defines.
+  createEvaluator: (
+    formula: IFormula,
+    context: EngineEvaluatorContext
+  ) => EvaluationFunction | null | Promise<EvaluationFunction | null>;
+  // Code shown in the evaluation function pane
+  generateDisplayCode?: (
+    expressions: string[],
+    context: EngineDisplayCodeContext
+  ) => string;
+  // Whether `mode: "step"` configs can be stepped through in the debugger
+  supportsStepMode?: boolean;
+}
+
+// Registry for computation engines - starts with the built-in engines. A Map,
+// so that names like "constructor" aren't found on the object prototype
+const ENGINE_REGISTRY = new Map<string, ComputationEngine>([
+  ["symbolic-algebra", symbolicAlgebraEngine],
+  ["llm", llmEngine],
+  ["manual", manualEngine],
+]);
+
+// Register a computation engine, replacing any engine with the same name
+export const registerEngine = (name: string, engine: ComputationEngine) => {
+  ENGINE_REGISTRY.set(name, engine);
+};
+
+// Get all registered engine names
+export const getAllEngines = (): string[] => {
+  return Array.from(ENGINE_REGISTRY.keys());
+};
+
+// Check if an engine is registered
+export const isEngineRegistered = (name: string): boolean => {
+  return ENGINE_REGISTRY.has(name);
+};
+
+// Unregister a computation engine
+export const unregisterEngine = (name: string): boolean => {
+  return ENGINE_REGISTRY.delete(name);
+};
+
+// Get a registered engine
+export const getEngine = (name: string): ComputationEngine | undefined => {
+  return ENGINE_REGISTRY.get(name);
+};
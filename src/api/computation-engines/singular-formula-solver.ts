@@ -6,6 +6,9 @@
  */
 import * as math from "mathjs";
 
+import { VariableValue } from "../../types/variable";
+import { createEquationSolver } from "./equation-solver";
+
 /**
  * Processes a formula string to replace variable names with math.js symbols
  * Variable names in the formula should be wrapped in curly braces: {variableName}
@@ -26,7 +29,7 @@ function processFormulaString(formulaStr: string): string {
  */
 export function solveSingularFormula(
   formula: string,
-  variables: Record<string, number>,
+  variables: Record<string, VariableValue>,
   solveFor: string
 ): number | null {
   try {
@@ -50,7 +53,7 @@ export function solveSingularFormula(
  */
 function solveEquationDirect(
   equation: string,
-  variables: Record<string, number>,
+  variables: Record<string, VariableValue>,
   solveFor: string
 ): number | null {
   try {
@@ -65,67 +68,20 @@ function solveEquationDirect(
       return evaluateExpressionDirect(leftSide, variables, solveFor);
     }
 
-    // Case 2: Try simple rearrangement for linear equations
-    return trySimpleLinearSolving(leftSide, rightSide, variables, solveFor);
+    // Case 2: Isolate the variable symbolically, or find it numerically
+    return createEquationSolver(equation, solveFor)?.solve(variables) ?? null;
   } catch (error) {
     console.debug("Error in direct equation solving:", error);
     return null;
   }
 }
 
-/**
- * Simple linear equation solving for common patterns
- */
-function trySimpleLinearSolving(
-  leftSide: string,
-  rightSide: string,
-  variables: Record<string, number>,
-  solveFor: string
-): number | null {
-  try {
-    // For simple linear equations, try to isolate the variable
-    // This handles cases like "x + y = z" -> solve for any variable
-
-    const leftExpr = math.parse(leftSide);
-    const rightExpr = math.parse(rightSide);
-
-    // Create scope without the solve variable
-    const scope = { ...variables };
-    delete scope[solveFor];
-
-    // Try to evaluate both sides with the variable set to 0, then 1
-    // to determine if it's linear and get coefficient
-    scope[solveFor] = 0;
-    const left0 = leftExpr.compile().evaluate(scope);
-    const right0 = rightExpr.compile().evaluate(scope);
-
-    scope[solveFor] = 1;
-    const left1 = leftExpr.compile().evaluate(scope);
-    const right1 = rightExpr.compile().evaluate(scope);
-
-    // Check if linear (coefficient is constant)
-    const leftCoeff = left1 - left0;
-    const rightCoeff = right1 - right0;
-    const netCoeff = leftCoeff - rightCoeff;
-
-    if (Math.abs(netCoeff) > 1e-10) {
-      // Linear equation: solve for the variable
-      const result = (right0 - left0) / netCoeff;
-      return typeof result === "number" && isFinite(result) ? result : null;
-    }
-
-    return null;
-  } catch (error) {
-    return null;
-  }
-}
-
 /**
  * Direct expression evaluation with minimal overhead
  */
 function evaluateExpressionDirect(
   expression: string,
-  variables: Record<string, number>,
+  variables: Record<string, VariableValue>,
   solveFor: string
 ): number | null {
   try {
@@ -170,7 +126,7 @@ export function canSolveForVariable(
 export function computeSurfaceIntersection(
   surface1Formula: string,
   surface2Formula: string,
-  variables: Record<string, number>,
+  variables: Record<string, VariableValue>,
   xVar: string,
   yVar: string,
   zVar: string,
@@ -255,7 +211,7 @@ export function computeSurfaceIntersection(
 function solveTwoEquationSystem(
   equation1: string,
   equation2: string,
-  knownVars: Record<string, number>,
+  knownVars: Record<string, VariableValue>,
   var1: string,
   var2: string
 ): { x: number; y: number } | null {
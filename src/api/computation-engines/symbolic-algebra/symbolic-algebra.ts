@@ -8,6 +8,10 @@ import * as math from "mathjs";
 
 import { IComputation } from "../../../types/computation";
 import { IEnvironment } from "../../../types/environment";
+import { VariableValue } from "../../../types/variable";
+import { fromMathValue } from "../../../util/variable-value";
+import { buildDependencyGraph, evaluateInOrder } from "../../dependencyGraph";
+import { EquationSolver, createEquationSolver } from "../equation-solver";
 
 /**
  * Translates a variable name to be compatible with Math.js by replacing
@@ -95,10 +99,10 @@ function toNumberArray(result: unknown): number[] | null {
  */
 function tryEvaluateMatrixExpression(
   expr: string,
-  scope: Record<string, number>,
+  scope: Record<string, VariableValue>,
   translatedDependentVars: string[],
   unresolved: Set<string>,
-  result: Record<string, number>,
+  result: Record<string, VariableValue>,
   reverseTranslationMap: Record<string, string>
 ): boolean {
   // Match matrix pattern: [var1, var2, ...] = expression
@@ -159,9 +163,22 @@ function processFormulaString(
   });
 }
 
+/**
+ * Checks whether a processed expression refers to a translated variable name
+ * @param expr The processed expression
+ * @param variableName The translated variable name
+ * @returns true if the variable appears in the expression
+ */
+function expressionContainsVariable(expr: string, variableName: string): boolean {
+  const escaped = variableName.replace(/[$]/g, "\\$");
+  return new RegExp(`(^|[^a-zA-Z0-9_$])${escaped}($|[^a-zA-Z0-9_$])`).test(expr);
+}
+
 /**
  * Derives a JavaScript function from a symbolic formula that computes
  * dependent variables based on input variables
+ * A dependent variable that does not stand alone on one side of its equation
+ * is isolated by rearranging the equation, or found numerically
  *
  * @param expressions The expressions extracted from formula objects
  * @param dependentVars Names of the dependent variables to solve for
@@ -172,7 +189,7 @@ export function deriveSymbolicFunction(
   expressions: string[],
   dependentVars: string[],
   translationMap: Record<string, string>
-): (variables: Record<string, number>) => Record<string, number> {
+): (variables: Record<string, VariableValue>) => Record<string, VariableValue> {
   const processedExpressions = expressions.map((expr: string) =>
     processFormulaString(expr, translationMap)
   );
@@ -183,11 +200,23 @@ export function deriveSymbolicFunction(
     reverseTranslationMap[translated] = original;
   }
 
-  return function (variables: Record<string, number>): Record<string, number> {
-    const result: Record<string, number> = {};
+  // Equation solvers are created once per expression and variable
+  const solvers = new Map<string, EquationSolver | null>();
+  const getSolver = (expr: string, depVar: string) => {
+    const key = `${depVar}|${expr}`;
+    if (!solvers.has(key)) {
+      solvers.set(key, createEquationSolver(expr, depVar));
+    }
+    return solvers.get(key) ?? null;
+  };
+
+  return function (
+    variables: Record<string, VariableValue>
+  ): Record<string, VariableValue> {
+    const result: Record<string, VariableValue> = {};
 
     // Create scope with translated variable names
-    const scope: Record<string, number> = {};
+    const scope: Record<string, VariableValue> = {};
     for (const [originalName, value] of Object.entries(variables)) {
       const translatedName =
         translationMap[originalName] || translateVariableName(originalName);
@@ -217,7 +246,10 @@ export function deriveSymbolicFunction(
           const match1 = expr.match(new RegExp(`^\\s*${depVar}\\s*=\\s*(.+)$`));
           if (match1) {
             try {
-              const evalResult = math.evaluate(match1[1], scope) as number;
+              const evalResult = fromMathValue(math.evaluate(match1[1], scope));
+              if (evalResult === null) {
+                throw new Error("Result is not a number, vector or matrix");
+              }
               const originalVarName = reverseTranslationMap[depVar] || depVar;
               result[originalVarName] = evalResult;
               scope[depVar] = evalResult;
@@ -238,7 +270,10 @@ export function deriveSymbolicFunction(
           );
           if (match2) {
             try {
-              const evalResult = math.evaluate(match2[1], scope) as number;
+              const evalResult = fromMathValue(math.evaluate(match2[1], scope));
+              if (evalResult === null) {
+                throw new Error("Result is not a number, vector or matrix");
+              }
               const originalVarName = reverseTranslationMap[depVar] || depVar;
               result[originalVarName] = evalResult;
               scope[depVar] = evalResult;
@@ -252,6 +287,23 @@ export function deriveSymbolicFunction(
               // Can't evaluate yet, dependencies not ready
             }
           }
+
+          // Otherwise solve the equation for the variable when it is the only
+          // unresolved dependent variable the expression refers to
+          if (!match1 && !match2 && expressionContainsVariable(expr, depVar)) {
+            const otherUnresolved = Array.from(unresolved).filter(
+              (name) => name !== depVar && expressionContainsVariable(expr, name)
+            );
+            if (otherUnresolved.length > 0) continue;
+            const solved = getSolver(expr, depVar)?.solve(scope) ?? null;
+            if (solved !== null) {
+              const originalVarName = reverseTranslationMap[depVar] || depVar;
+              result[originalVarName] = solved;
+              scope[depVar] = solved;
+              unresolved.delete(depVar);
+              break; // Move to next expression since we solved for a variable
+            }
+          }
         }
       }
 
@@ -265,8 +317,27 @@ export function deriveSymbolicFunction(
   };
 }
 
+/**
+ * Creates an evaluation function for a single formula expression that
+ * computes the variables it defines
+ *
+ * @param expression The formula expression
+ * @param definedVars Names of the dependent variables the expression defines
+ * @param variableNames Names of all variables in the environment
+ * @returns A JavaScript function that evaluates the expression
+ */
+export function createSymbolicFormulaEvaluator(
+  expression: string,
+  definedVars: string[],
+  variableNames: string[]
+): (variables: Record<string, VariableValue>) => Record<string, VariableValue> {
+  const translationMap = createVariableTranslationMap(variableNames);
+  return deriveSymbolicFunction([expression], definedVars, translationMap);
+}
+
 /**
  * Computes the formula with the given variable values
+ * Formulas are evaluated in the topological order of their dependency graph
  *
  * @param environment The Formulize environment
  * @param computation The computation settings
@@ -276,8 +347,8 @@ export function deriveSymbolicFunction(
 export function computeWithSymbolicEngine(
   environment: IEnvironment,
   computation: IComputation,
-  variables: Record<string, number>
-): Record<string, number> {
+  variables: Record<string, VariableValue>
+): Record<string, VariableValue> {
   try {
     // Validate environment has proper structure
     if (!environment || !environment.variables) {
@@ -294,46 +365,30 @@ export function computeWithSymbolicEngine(
     // Get all variable names for translation map
     const allVariableNames = Object.keys(environment.variables);
 
-    // Create translation map for all variables
-    const translationMap = createVariableTranslationMap(allVariableNames);
-
-    // Get all dependent variables
-    const dependentVars = Object.entries(environment.variables)
-      .filter(([, varDef]) => varDef.type === "dependent")
-      .map(([varName]) => varName);
-
     // No dependent variables, nothing to compute
-    if (dependentVars.length === 0) {
+    const hasDependentVars = Object.values(environment.variables).some(
+      (varDef) => varDef.type === "dependent"
+    );
+    if (!hasDependentVars) {
       console.warn("⚠️ No dependent variables found");
       return {};
     }
 
-    // Extract expressions from individual formulas only
-    const expressions = environment.formulas
-      .map((f) => f?.expression)
-      .filter(
-        (expression): expression is string =>
-          expression !== undefined &&
-          expression !== null &&
-          typeof expression === "string"
-      );
-
-    if (expressions.length === 0) {
-      console.warn("⚠️ No valid expressions found in formulas");
-      return {};
-    }
-
-    // Derive the evaluation function with translation map
-    const evaluationFunction = deriveSymbolicFunction(
-      expressions,
-      dependentVars,
-      translationMap
+    const graph = buildDependencyGraph(
+      environment.formulas,
+      environment.variables
     );
 
-    // Execute the function with the current variable values
-    const result = evaluationFunction(variables);
-
-    return result;
+    // Evaluate each formula with an expression, in dependency order
+    return evaluateInOrder(graph.order, variables, (node, scope) => {
+      const expression = environment.formulas[node.index]?.expression;
+      if (!expression) return {};
+      return createSymbolicFormulaEvaluator(
+        expression,
+        node.defines,
+        allVariableNames
+      )(scope);
+    });
   } catch (error) {
     console.error("Error computing with symbolic engine:", error);
     return {};
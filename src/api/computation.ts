@@ -2,30 +2,85 @@ import { action, observable, toJS } from "mobx";
 
 import { IComputation } from ".";
 import { IEnvironment } from "../types/environment";
-import { IVariable } from "../types/variable";
+import { IVariable, VariableValue } from "../types/variable";
 import {
-  DisplayCodeGeneratorContext,
-  generateLLMDisplayCode,
-  generateManualDisplayCode,
-  generateSymbolicAlgebraDisplayCode,
-} from "./computation-engines/display-code-generator";
-import { generateEvaluationFunction as generateLLMFunction } from "./computation-engines/llm/llm-function-generator";
-import { computeWithManualEngine } from "./computation-engines/manual/manual";
-import { computeWithSymbolicEngine } from "./computation-engines/symbolic-algebra/symbolic-algebra";
+  createZeroValue,
+  getValueShape,
+  isScalarValue,
+  isValidValue,
+} from "../util/variable-value";
+import { DisplayCodeGeneratorContext } from "./computation-engines/display-code-generator";
+import type { VerificationReport } from "./computation-engines/llm/function-verifier";
+import { ComputationEngine, getEngine } from "./computation-engines/registry";
+import {
+  DependencyGraph,
+  FormulaDependencies,
+  buildDependencyGraph,
+  evaluateInOrder,
+  getDownstreamFormulas,
+} from "./dependencyGraph";
 
 export type EvaluationFunction = (
-  variables: Record<string, number>
-) => Record<string, number>;
+  variables: Record<string, VariableValue>
+) => Record<string, VariableValue>;
+
+export interface ValueChange {
+  id: string;
+  value: VariableValue;
+  previous: VariableValue | undefined;
+}
+
+// Called after setValue changes a variable, or once with all the changes of
+// a transaction
+export type ValueListener = (changes: ValueChange[]) => void;
+
+// Events emitted to listeners registered with on()
+export interface ComputationEventMap {
+  // A variable's value changed, set by an input or computed by a formula
+  change: {
+    name: string;
+    value: VariableValue;
+    previous: VariableValue | undefined;
+    source: "input" | "computed";
+  };
+  // The dependent variables were recomputed
+  evaluate: {
+    values: Record<string, VariableValue>;
+    changed: string[];
+  };
+  // Evaluation failed, with the message shown in the editor panel
+  error: { message: string };
+}
 
-class ComputationStore {
+export type ComputationEvent = keyof ComputationEventMap;
+
+export type ComputationEventListener<E extends ComputationEvent> = (
+  event: ComputationEventMap[E]
+) => void;
+
+const valuesEqual = (a: VariableValue | undefined, b: VariableValue) =>
+  a === b ||
+  (Array.isArray(a) &&
+    Array.isArray(b) &&
+    JSON.stringify(a) === JSON.stringify(b));
+
+export class ComputationStore {
   @observable
   accessor variables = new Map<string, IVariable>();
 
   @observable
   accessor lastGeneratedCode: string | null = null;
 
+  // Error from the last evaluation, shown in the editor panel
+  @observable
+  accessor evaluationError: string | null = null;
+
+  // How the evaluators of the current computation were checked
   @observable
-  accessor computationEngine: "llm" | "symbolic-algebra" | "manual" = "llm";
+  accessor verificationReports: VerificationReport[] = [];
+
+  @observable
+  accessor computationEngine: IComputation["engine"] = "llm";
 
   @observable
   accessor computationConfig: IComputation | null = null;
@@ -39,7 +94,7 @@ class ComputationStore {
   @observable
   accessor manualFunctions: ((
     variables: Record<string, IVariable>
-  ) => number)[] = [];
+  ) => VariableValue)[] = [];
 
   @observable
   accessor environment: IEnvironment | null = null;
@@ -57,8 +112,18 @@ class ComputationStore {
   accessor processedIndices = new Map<string, Set<number>>();
 
   private evaluationFunction: EvaluationFunction | null = null;
+  private dependencyGraph: DependencyGraph | null = null;
+  private formulaEvaluators = new Map<number, EvaluationFunction>();
   private isUpdatingDependents = false;
   private isInitializing = false;
+  private valueListeners = new Set<ValueListener>();
+  // Changes made in the current transaction, null outside of one
+  private transactionChanges: Map<string, ValueChange> | null = null;
+  // Set while a transaction evaluates, as it may still be rolled back
+  private deferEvents = false;
+  private eventListeners: {
+    [E in ComputationEvent]: Set<ComputationEventListener<E>>;
+  } = { change: new Set(), evaluate: new Set(), error: new Set() };
 
   private hasDependentVars(): boolean {
     return Array.from(this.variables.values()).some(
@@ -66,16 +131,19 @@ class ComputationStore {
     );
   }
 
-  private getDependentVars(): IVariable[] {
-    return Array.from(this.variables.values()).filter(
-      (v) => v.type === "dependent"
-    );
-  }
-
   private getDependentVarSymbols(): string[] {
-    return Array.from(this.variables.entries())
+    const symbols = Array.from(this.variables.entries())
       .filter(([, v]) => v.type === "dependent")
       .map(([id]) => id);
+    if (!this.dependencyGraph) return symbols;
+    // List dependent variables in the order they are computed
+    const ordered = this.dependencyGraph.order
+      .flatMap((node) => node.defines)
+      .filter((symbol) => symbols.includes(symbol));
+    return [
+      ...ordered,
+      ...symbols.filter((symbol) => !ordered.includes(symbol)),
+    ];
   }
 
   private getInputVarSymbols(): string[] {
@@ -93,8 +161,12 @@ class ComputationStore {
     };
   }
 
+  // Step mode applies only to engines that support the step debugger
   isStepMode(): boolean {
-    return this.computationConfig?.mode === "step";
+    return (
+      this.computationConfig?.mode === "step" &&
+      !!getEngine(this.computationEngine)?.supportsStepMode
+    );
   }
 
   get evaluateFormula(): EvaluationFunction | null {
@@ -106,6 +178,17 @@ class ComputationStore {
     this.lastGeneratedCode = code;
   }
 
+  @action
+  setEvaluationError(error: string | null) {
+    this.evaluationError = error;
+    if (error) this.emit("error", { message: error });
+  }
+
+  @action
+  addVerificationReport(report: VerificationReport) {
+    this.verificationReports = [...this.verificationReports, report];
+  }
+
   @action
   setInitializing(initializing: boolean) {
     this.isInitializing = initializing;
@@ -133,7 +216,7 @@ class ComputationStore {
 
   @action
   setManualFunctions(
-    manual: ((variables: Record<string, IVariable>) => number)[]
+    manual: ((variables: Record<string, IVariable>) => VariableValue)[]
   ): void {
     this.manualFunctions = manual;
   }
@@ -144,23 +227,238 @@ class ComputationStore {
   }
 
   @action
-  setValue(id: string, value: number) {
+  setValue(id: string, value: VariableValue) {
     const variable = this.variables.get(id);
     if (!variable) {
       console.log(`setValue: Variable not found: ${id}`);
       return;
     }
+    const previous = toJS(variable.value);
+    const previousInputs =
+      this.transactionChanges || this.isInitializing
+        ? new Map<string, VariableValue | undefined>()
+        : this.snapshotInputValues();
     variable.value = value;
+    // Transactions resolve relationships and evaluate when they end
+    if (this.transactionChanges) {
+      const change = this.transactionChanges.get(id);
+      this.transactionChanges.set(id, {
+        id,
+        value,
+        previous: change ? change.previous : previous,
+      });
+      return;
+    }
     // Update index-based dependent variables
-    this.updateIndexBasedVariables(id, value);
+    const changedIds = isScalarValue(value)
+      ? this.updateIndexBasedVariables(id, value)
+      : [];
+    this.emitInputChanges(previousInputs);
     // Only update dependent variables if we're not initializing and not already in an update cycle
     if (!this.isUpdatingDependents && !this.isInitializing) {
-      this.updateAllDependentVars();
+      this.updateDownstreamDependentVars([id, ...changedIds]);
+    }
+    // Values set while the instance is being created aren't changes
+    if (!this.isInitializing) {
+      this.valueListeners.forEach((listener) =>
+        listener([{ id, value, previous }])
+      );
+    }
+  }
+
+  // Set several values with one evaluation
+  @action
+  setValues(values: Record<string, VariableValue>) {
+    this.transaction(() => {
+      for (const [id, value] of Object.entries(values)) {
+        this.setValue(id, value);
+      }
+    });
+  }
+
+  // Run fn with the values it sets applied together: key and memberOf
+  // relationships are resolved and the dependent variables evaluated once
+  // when it returns. If fn throws or the evaluation fails, every value is
+  // restored and the error thrown. fn must be synchronous.
+  @action
+  transaction<T>(fn: () => T): T {
+    // Nested transactions are part of the outer one
+    if (this.transactionChanges) return fn();
+
+    const snapshot = new Map(
+      Array.from(this.variables.entries()).map(([id, v]) => [id, toJS(v.value)])
+    );
+    const previousError = this.evaluationError;
+    const previousDependents = this.snapshotDependentValues();
+    const changes = new Map<string, ValueChange>();
+    this.transactionChanges = changes;
+    let result: T;
+    try {
+      result = fn();
+    } catch (error) {
+      this.restoreValues(snapshot);
+      throw error;
+    } finally {
+      this.transactionChanges = null;
+    }
+    if (changes.size === 0 || this.isInitializing) return result;
+
+    const changedIds = Array.from(changes.keys());
+    for (const change of changes.values()) {
+      if (isScalarValue(change.value)) {
+        changedIds.push(
+          ...this.updateIndexBasedVariables(change.id, change.value)
+        );
+      }
+    }
+    this.resolveMemberOfRelationships(changedIds);
+
+    this.deferEvents = true;
+    try {
+      this.evaluationError = null;
+      this.updateDownstreamDependentVars(changedIds);
+    } finally {
+      this.deferEvents = false;
+    }
+    if (this.evaluationError) {
+      const message = this.evaluationError;
+      this.restoreValues(snapshot);
+      this.evaluationError = previousError;
+      this.emit("error", { message });
+      throw new Error(`Transaction rolled back: ${message}`);
+    }
+
+    const batch = Array.from(changes.values());
+    this.emitInputChanges(
+      new Map(
+        Array.from(snapshot).filter(
+          ([id]) => this.variables.get(id)?.type !== "dependent"
+        )
+      )
+    );
+    this.emitEvaluation(previousDependents);
+    this.valueListeners.forEach((listener) => listener(batch));
+    return result;
+  }
+
+  @action
+  private restoreValues(snapshot: Map<string, VariableValue | undefined>) {
+    for (const [id, value] of snapshot) {
+      const variable = this.variables.get(id);
+      if (variable) variable.value = value;
+    }
+  }
+
+  // Listen for values set with setValue, returns a function to stop listening
+  addValueListener(listener: ValueListener): () => void {
+    this.valueListeners.add(listener);
+    return () => this.valueListeners.delete(listener);
+  }
+
+  // Listen for change, evaluate and error events, returns a function to stop
+  // listening
+  on<E extends ComputationEvent>(
+    event: E,
+    listener: ComputationEventListener<E>
+  ): () => void {
+    const listeners = this.eventListeners[event] as Set<
+      ComputationEventListener<E>
+    >;
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  }
+
+  private emit<E extends ComputationEvent>(
+    event: E,
+    payload: ComputationEventMap[E]
+  ) {
+    const listeners = this.eventListeners[event] as Set<
+      ComputationEventListener<E>
+    >;
+    listeners.forEach((listener) => {
+      // A failing listener shouldn't break evaluation or other listeners
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in ${event} listener:`, error);
+      }
+    });
+  }
+
+  private hasEventListeners(): boolean {
+    return Object.values(this.eventListeners).some(
+      (listeners) => listeners.size > 0
+    );
+  }
+
+  // Current values of the dependent variables, to compare after evaluation
+  private snapshotDependentValues(): Map<string, VariableValue | undefined> {
+    const values = new Map<string, VariableValue | undefined>();
+    if (!this.hasEventListeners()) return values;
+    for (const [symbol, variable] of this.variables.entries()) {
+      if (variable.type === "dependent") {
+        values.set(symbol, toJS(variable.value));
+      }
+    }
+    return values;
+  }
+
+  // Current values of the other variables, to find the ones an input changed
+  // directly or through key/set and memberOf relationships
+  private snapshotInputValues(): Map<string, VariableValue | undefined> {
+    const values = new Map<string, VariableValue | undefined>();
+    if (!this.hasEventListeners()) return values;
+    for (const [symbol, variable] of this.variables.entries()) {
+      if (variable.type !== "dependent") {
+        values.set(symbol, toJS(variable.value));
+      }
+    }
+    return values;
+  }
+
+  // Emit change events for the input values that differ from a snapshot
+  private emitInputChanges(previous: Map<string, VariableValue | undefined>) {
+    for (const [symbol, before] of previous) {
+      const value = this.variables.get(symbol)?.value;
+      if (value === undefined || valuesEqual(before, value)) continue;
+      this.emit("change", {
+        name: symbol,
+        value: toJS(value),
+        previous: before,
+        source: "input",
+      });
+    }
+  }
+
+  // Emit change events for the recomputed values, then evaluate and error
+  private emitEvaluation(previous: Map<string, VariableValue | undefined>) {
+    if (this.isInitializing || this.deferEvents || !this.hasEventListeners()) {
+      return;
+    }
+    const changed: string[] = [];
+    for (const [symbol, before] of previous) {
+      const value = this.variables.get(symbol)?.value;
+      if (value === undefined || valuesEqual(before, value)) continue;
+      changed.push(symbol);
+      this.emit("change", {
+        name: symbol,
+        value: toJS(value),
+        previous: before,
+        source: "computed",
+      });
+    }
+    const values: Record<string, VariableValue> = {};
+    for (const [symbol, variable] of this.variables.entries()) {
+      if (variable.value !== undefined) values[symbol] = toJS(variable.value);
+    }
+    this.emit("evaluate", { values, changed });
+    if (this.evaluationError) {
+      this.emit("error", { message: this.evaluationError });
     }
   }
 
   @action
-  setValueInStepMode(id: string, value: number) {
+  setValueInStepMode(id: string, value: VariableValue) {
     const variable = this.variables.get(id);
     if (!variable) {
       console.log(`setValueInStepMode: Variable not found: ${id}`);
@@ -228,7 +526,11 @@ class ComputationStore {
     for (const variable of this.variables.values()) {
       if (variable.key && variable.set) {
         const keyVariable = this.variables.get(variable.key);
-        if (keyVariable && keyVariable.set && keyVariable.value !== undefined) {
+        if (
+          keyVariable &&
+          keyVariable.set &&
+          isScalarValue(keyVariable.value)
+        ) {
           const keyIndex = keyVariable.set.indexOf(keyVariable.value);
           if (keyIndex !== -1 && keyIndex < variable.set.length) {
             const setValue = variable.set[keyIndex];
@@ -242,17 +544,21 @@ class ComputationStore {
     }
   }
 
-  // Resolve memberOf relationships after all variables have been added
+  // Resolve memberOf relationships after all variables have been added, or
+  // only for the members of the given parent variables
   @action
-  resolveMemberOfRelationships() {
+  resolveMemberOfRelationships(parentIds?: string[]) {
     for (const [, variable] of this.variables.entries()) {
-      if (variable.memberOf) {
+      if (
+        variable.memberOf &&
+        (!parentIds || parentIds.includes(variable.memberOf))
+      ) {
         const parentVar = this.variables.get(variable.memberOf);
         if (parentVar?.set) {
           variable.set = [...parentVar.set];
           // If the parent variable has a value, set this variable's value to match
           if (
-            parentVar.value !== undefined &&
+            isScalarValue(parentVar.value) &&
             parentVar.set.includes(parentVar.value)
           ) {
             variable.value = parentVar.value;
@@ -269,13 +575,15 @@ class ComputationStore {
   }
 
   // Update variables that have a set based on a key variable (bidirectional index-based matching)
+  // Returns the ids of the variables whose values were updated
   @action
   private updateIndexBasedVariables(
     changedVariableId: string,
     changedValue: number
-  ) {
+  ): string[] {
     const changedVariable = this.variables.get(changedVariableId);
-    if (!changedVariable) return;
+    if (!changedVariable) return [];
+    const updatedIds: string[] = [];
 
     // Case 1: The changed variable has a key (depends on another variable)
     if (changedVariable.key && changedVariable.set) {
@@ -290,6 +598,7 @@ class ComputationStore {
             typeof keyValue === "number"
               ? keyValue
               : parseFloat(String(keyValue));
+          updatedIds.push(changedVariable.key);
         }
       }
     }
@@ -311,44 +620,50 @@ class ComputationStore {
               typeof setValue === "number"
                 ? setValue
                 : parseFloat(String(setValue));
+            updatedIds.push(varId);
           }
         }
       }
     }
+    return updatedIds;
   }
 
   // Set up all expressions for computation
   @action
   async setComputation(
     expressions: string[],
-    manual: ((variables: Record<string, IVariable>) => number)[]
+    manual: ((variables: Record<string, IVariable>) => VariableValue)[]
   ) {
     this.setSymbolicFunctions(expressions);
     this.setManualFunctions(manual);
-
-    // Set up the evaluation function to handle all expressions
-    if (
-      this.computationEngine === "symbolic-algebra" &&
-      this.computationConfig
-    ) {
-      this.evaluationFunction =
-        this.createMultiExpressionEvaluator(expressions);
-      const displayCode = generateSymbolicAlgebraDisplayCode(
-        expressions,
-        this.getDisplayCodeGeneratorContext()
-      );
-      this.setLastGeneratedCode(displayCode);
-    } else if (this.computationEngine === "llm") {
-      // For LLM engine, create a multi-expression evaluator using the LLM approach
-      await this.createLLMMultiExpressionEvaluator(expressions);
-    } else if (this.computationEngine === "manual" && this.computationConfig) {
-      // For manual engine, create an evaluator using manual functions
-      this.evaluationFunction = this.createManualEvaluator();
-      const displayCode = generateManualDisplayCode(
-        this.getDisplayCodeGeneratorContext()
+    this.setEvaluationError(null);
+    this.verificationReports = [];
+    this.dependencyGraph = null;
+    this.formulaEvaluators.clear();
+
+    // Set up an evaluator for each formula with the configured engine
+    const engine = getEngine(this.computationEngine);
+    if (!engine) {
+      this.setEvaluationError(
+        `Unknown computation engine "${this.computationEngine}"`
       );
-      this.setLastGeneratedCode(displayCode);
+      return;
     }
+    if (!this.computationConfig) return;
+    await this.setupDependencyGraph(engine);
+    this.evaluationFunction = this.createGraphEvaluator();
+    const displayCode = engine.generateDisplayCode?.(expressions, {
+      ...this.getDisplayCodeGeneratorContext(),
+      evaluators: new Map(
+        Array.from(this.formulaEvaluators.entries()).map(
+          ([index, evaluator]) => [
+            this.environment!.formulas[index].name,
+            evaluator,
+          ]
+        )
+      ),
+    });
+    this.setLastGeneratedCode(displayCode ?? null);
 
     // Initial evaluation of all dependent variables (skip in step mode)
     if (!this.isStepMode()) {
@@ -356,50 +671,72 @@ class ComputationStore {
     }
   }
 
-  // Create an evaluation function that handles multiple expressions
-  private createMultiExpressionEvaluator(
-    expressions: string[]
-  ): EvaluationFunction {
-    return (variables: Record<string, number>) => {
-      if (!this.computationConfig || !this.environment) return {};
-
-      // Use expressions if available
-      if (!expressions || expressions.length === 0) {
-        console.warn("No expressions available for symbolic algebra engine");
-        return {};
-      }
-
-      // Evaluate using the symbolic algebra engine with the stored environment directly
+  // Build the formula dependency graph and an evaluator for each formula.
+  // Throws when the formulas depend on each other in a cycle; engines that
+  // fail to create an evaluator are reported through evaluationError
+  private async setupDependencyGraph(engine: ComputationEngine) {
+    if (!this.environment?.formulas || !this.computationConfig) return;
+    const graph = buildDependencyGraph(
+      this.environment.formulas,
+      this.variables
+    );
+    this.dependencyGraph = graph;
+    const errors: string[] = [];
+    for (const node of graph.nodes) {
+      const formula = this.environment.formulas[node.index];
       try {
-        const symbolResult = computeWithSymbolicEngine(
-          this.environment,
-          this.computationConfig,
-          variables
-        );
-        return symbolResult;
+        const created = engine.createEvaluator(formula, {
+          node,
+          computation: this.computationConfig,
+          environment: this.environment,
+          getVariables: () => Object.fromEntries(this.variables),
+          reportVerification: (report) => this.addVerificationReport(report),
+        });
+        // Only asynchronous engines defer the rest of the setup
+        const evaluator = created instanceof Promise ? await created : created;
+        if (evaluator) {
+          this.formulaEvaluators.set(node.index, evaluator);
+        }
       } catch (error) {
-        console.error("❌ Error in multi-expression evaluation:", error);
-        return {};
+        errors.push(
+          `Could not create evaluator for formula "${node.name}": ${error instanceof Error ? error.message : error}`
+        );
       }
-    };
+    }
+    if (errors.length > 0) {
+      this.setEvaluationError(errors.join("\n"));
+    }
   }
 
-  // Create an evaluation function for manual engine using manual functions
-  private createManualEvaluator(): EvaluationFunction {
-    return (variables) => {
-      if (!this.environment) return {};
-      // Create environment with updated variables from computation store
-      const updatedVariables: Record<string, IVariable> = {};
-      for (const [varName, computationVar] of this.variables.entries()) {
-        updatedVariables[varName] = {
-          ...computationVar,
-          value: variables[varName] ?? computationVar.value,
-        };
-      }
-      return computeWithManualEngine({
-        ...this.environment,
-        variables: updatedVariables,
-      });
+  // Evaluate formulas in topological order, each seeing upstream results
+  private evaluateFormulaNodes(
+    nodes: FormulaDependencies[],
+    variables: Record<string, VariableValue>
+  ): Record<string, VariableValue> {
+    const errors: string[] = [];
+    const results = evaluateInOrder(
+      nodes,
+      variables,
+      (node, scope) => {
+        const evaluator = this.formulaEvaluators.get(node.index);
+        return evaluator ? evaluator(scope) : {};
+      },
+      (node, error) =>
+        errors.push(
+          `Formula "${node.name}": ${error instanceof Error ? error.message : error}`
+        )
+    );
+    if (errors.length > 0) {
+      this.evaluationError = errors.join("\n");
+    }
+    return results;
+  }
+
+  // Create an evaluation function that evaluates the whole dependency graph
+  private createGraphEvaluator(): EvaluationFunction {
+    return (variables: Record<string, VariableValue>) => {
+      if (!this.dependencyGraph) return {};
+      return this.evaluateFormulaNodes(this.dependencyGraph.order, variables);
     };
   }
 
@@ -407,11 +744,17 @@ class ComputationStore {
   addVariable(id: string, variableDefinition?: Partial<IVariable>) {
     if (!this.variables.has(id)) {
       this.variables.set(id, {
-        value: variableDefinition?.value ?? 0,
+        value:
+          variableDefinition?.value ??
+          (variableDefinition?.dataType === "vector" ||
+          variableDefinition?.dataType === "matrix"
+            ? createZeroValue(variableDefinition.dimensions)
+            : 0),
         type: variableDefinition?.type ?? "constant",
         dataType: variableDefinition?.dataType,
         dimensions: variableDefinition?.dimensions,
         units: variableDefinition?.units,
+        displayUnits: variableDefinition?.displayUnits,
         label: variableDefinition?.label,
         precision: variableDefinition?.precision,
         description: variableDefinition?.description,
@@ -424,10 +767,23 @@ class ComputationStore {
         showName: variableDefinition?.showName,
       });
 
+      // Vector and matrix values must match their declared dimensions
+      const dimensions = variableDefinition?.dimensions;
+      const shape = getValueShape(this.variables.get(id)!.value!);
+      if (dimensions && shape.join("x") !== dimensions.join("x")) {
+        console.warn(
+          `⚠️ Variable "${id}" has dimensions [${shape}] but declares [${dimensions}]`
+        );
+      }
+
       // If this variable has a key-set relationship, update its value based on the key variable
       if (variableDefinition?.key && variableDefinition?.set) {
         const keyVariable = this.variables.get(variableDefinition.key);
-        if (keyVariable && keyVariable.set && keyVariable.value !== undefined) {
+        if (
+          keyVariable &&
+          keyVariable.set &&
+          isScalarValue(keyVariable.value)
+        ) {
           const keyIndex = keyVariable.set.indexOf(keyVariable.value);
           if (keyIndex !== -1 && keyIndex < variableDefinition.set.length) {
             const setValue = variableDefinition.set[keyIndex];
@@ -467,8 +823,14 @@ class ComputationStore {
     const hasDependentVars = this.hasDependentVars();
 
     if (hasDependentVars && this.symbolicFunctions.length > 0) {
-      // Re-evaluate all expressions when variable types change
-      this.setComputation(this.symbolicFunctions, this.manualFunctions);
+      // Re-evaluate all expressions when variable types change. The new
+      // types can make the formulas depend on each other in a cycle.
+      this.setComputation(this.symbolicFunctions, this.manualFunctions).catch(
+        (error) =>
+          this.setEvaluationError(
+            error instanceof Error ? error.message : String(error)
+          )
+      );
     } else if (!hasDependentVars) {
       // Clear evaluation function if no dependent variables
       this.evaluationFunction = null;
@@ -483,6 +845,7 @@ class ComputationStore {
   updateAllDependentVars() {
     if (!this.evaluationFunction) return;
 
+    const previous = this.snapshotDependentValues();
     try {
       this.isUpdatingDependents = true;
       const values = Object.fromEntries(
@@ -491,21 +854,59 @@ class ComputationStore {
           v.value ?? 0,
         ])
       );
+      this.evaluationError = null;
       const results = this.evaluationFunction(values);
-      // Update all dependent variables with their computed values
-      for (const [symbol, variable] of this.variables.entries()) {
-        if (variable.type === "dependent") {
-          const result = results[symbol];
-          if (typeof result === "number" && !isNaN(result)) {
-            variable.value = result;
-          }
-        }
-      }
+      this.applyDependentResults(results);
+    } catch (error) {
+      this.evaluationError =
+        error instanceof Error ? error.message : String(error);
+    } finally {
+      this.isUpdatingDependents = false;
+    }
+    this.emitEvaluation(previous);
+  }
+
+  // Recompute only the formulas downstream of the changed variables
+  @action
+  updateDownstreamDependentVars(changedIds: string[]) {
+    if (!this.dependencyGraph) {
+      this.updateAllDependentVars();
+      return;
+    }
+    const nodes = getDownstreamFormulas(this.dependencyGraph, changedIds);
+    if (nodes.length === 0) return;
+
+    const previous = this.snapshotDependentValues();
+    try {
+      this.isUpdatingDependents = true;
+      const values = Object.fromEntries(
+        Array.from(this.variables.entries()).map(([symbol, v]) => [
+          symbol,
+          v.value ?? 0,
+        ])
+      );
+      this.evaluationError = null;
+      const results = this.evaluateFormulaNodes(nodes, values);
+      this.applyDependentResults(results);
     } catch (error) {
-      console.error("Error updating dependent variables:", error);
+      this.evaluationError =
+        error instanceof Error ? error.message : String(error);
     } finally {
       this.isUpdatingDependents = false;
     }
+    this.emitEvaluation(previous);
+  }
+
+  // Update dependent variables with their computed values
+  private applyDependentResults(results: Record<string, VariableValue>) {
+    for (const [symbol, variable] of this.variables.entries()) {
+      if (variable.type === "dependent") {
+        const result = results[symbol];
+        if (isValidValue(result)) {
+          variable.value = result;
+        }
+      }
+    }
   }
 
   getDebugState() {
@@ -534,49 +935,6 @@ class ComputationStore {
     }
     return variables;
   }
-
-  // Create an LLM-based multi-expression evaluator
-  private async createLLMMultiExpressionEvaluator(expressions: string[]) {
-    const dependentVars = this.getDependentVars();
-
-    if (dependentVars.length === 0) {
-      console.log(
-        "🔎 No dependent variables, skipping LLM function generation"
-      );
-      return;
-    }
-
-    try {
-      // Use the first expression for LLM generation (maintain backward compatibility)
-      const primaryExpression = expressions[0] || "";
-
-      if (!primaryExpression.trim()) {
-        console.log("🔎 No valid expression for LLM generation");
-        return;
-      }
-
-      console.log("🚀 Generating LLM function for expressions:", expressions);
-
-      const dependentVars = this.getDependentVarSymbols();
-      const inputVars = this.getInputVarSymbols();
-
-      // Generate function code via LLM
-      const functionCode = await generateLLMFunction({
-        formula: primaryExpression,
-        dependentVars,
-        inputVars,
-      });
-
-      const displayCode = generateLLMDisplayCode(functionCode, expressions);
-      this.setLastGeneratedCode(displayCode);
-      this.evaluationFunction = new Function(
-        "variables",
-        `"use strict";\n${functionCode}\nreturn evaluate(variables);`
-      ) as EvaluationFunction;
-    } catch (error) {
-      console.error("Error creating LLM multi-expression evaluator:", error);
-    }
-  }
 }
 
 export const computationStore = new ComputationStore();
@@ -0,0 +1,411 @@
+/**
+ * Formulize Document Loader
+ *
+ * Loads serialized Formulize documents (JSON or YAML) into an IEnvironment.
+ * Documents are validated against the Formulize JSON Schema and checked for
+ * references to unknown variables and formulas; every problem is reported
+ * with the JSON pointer of the offending value.
+ */
+import Ajv, { ErrorObject } from "ajv";
+import yaml from "js-yaml";
+
+import { IControls } from "../../types/control";
+import { IFormulizeDocument } from "../../types/document";
+import { IEnvironment } from "../../types/environment";
+import { IFormula } from "../../types/formula";
+import { VariableValue } from "../../types/variable";
+import {
+  getAllLLMProviders,
+  getLLMProvider,
+} from "../computation-engines/llm/providers";
+import {
+  getAllEngines,
+  isEngineRegistered,
+} from "../computation-engines/registry";
+import { extractExpressionVariables } from "../dependencyGraph";
+import {
+  MANUAL_GLOBALS,
+  createSandboxedFunction,
+  runInSandbox,
+} from "../sandbox";
+import formulizeSchema from "./formulize.schema.json";
+
+export type DocumentFormat = "json" | "yaml";
+
+export { formulizeSchema };
+
+const ajv = new Ajv({
+  allErrors: true,
+  discriminator: true,
+  allowUnionTypes: true,
+});
+const validateSchema = ajv.compile<IFormulizeDocument>(formulizeSchema);
+
+// Escapes a key for use in a JSON pointer
+const escapePointer = (key: string | number) =>
+  String(key).replace(/~/g, "~0").replace(/\//g, "~1");
+
+const pointer = (...keys: (string | number)[]) =>
+  "/" + keys.map(escapePointer).join("/");
+
+function describeSchemaError(error: ErrorObject): string {
+  const path = error.instancePath || "/";
+  switch (error.keyword) {
+    case "additionalProperties":
+      return `${path}: unknown property "${error.params.additionalProperty}"`;
+    case "required":
+      return `${path}: missing required property "${error.params.missingProperty}"`;
+    case "enum":
+      return `${path}: must be one of ${(
+        error.params.allowedValues as unknown[]
+      )
+        .map((value) => JSON.stringify(value))
+        .join(", ")}`;
+    case "const":
+      return `${path}: must be ${JSON.stringify(error.params.allowedValue)}`;
+    default:
+      return `${path}: ${error.message}`;
+  }
+}
+
+function throwDocumentErrors(issues: string[]): never {
+  const unique = Array.from(new Set(issues));
+  throw new Error(
+    `Invalid Formulize document:\n${unique.map((issue) => `  ${issue}`).join("\n")}`
+  );
+}
+
+/**
+ * Parses the text of a Formulize document
+ * @param source - JSON or YAML text
+ * @param format - The format of the text, detected from its first character if omitted
+ */
+export function parseFormulizeDocument(
+  source: string,
+  format?: DocumentFormat
+): unknown {
+  const detected =
+    format ?? (source.trimStart().startsWith("{") ? "json" : "yaml");
+  try {
+    return detected === "json" ? JSON.parse(source) : yaml.load(source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Invalid Formulize document: ${detected.toUpperCase()} syntax error: ${message}`
+    );
+  }
+}
+
+/**
+ * Checks that the names a document refers to are defined in it
+ */
+function findReferenceErrors(document: IFormulizeDocument): string[] {
+  const issues: string[] = [];
+  const variableNames = new Set(Object.keys(document.variables));
+  const formulaNames = new Set(document.formulas.map((f) => f.name));
+
+  const checkVariable = (name: string | undefined, path: string) => {
+    if (name !== undefined && !variableNames.has(name)) {
+      issues.push(`${path}: unknown variable "${name}"`);
+    }
+  };
+  const checkFormula = (name: string, path: string) => {
+    if (!formulaNames.has(name)) {
+      issues.push(`${path}: unknown formula "${name}"`);
+    }
+  };
+
+  if (!isEngineRegistered(document.computation.engine)) {
+    issues.push(
+      `/computation/engine: unknown engine "${document.computation.engine}" (registered: ${getAllEngines().join(", ")})`
+    );
+  }
+  const { provider } = document.computation;
+  if (provider !== undefined && !getLLMProvider(provider)) {
+    issues.push(
+      `/computation/provider: unknown provider "${provider}" (registered: ${getAllLLMProviders().join(", ")})`
+    );
+  }
+
+  document.formulas.forEach((formula, index) => {
+    if (formula.expression) {
+      for (const name of extractExpressionVariables(formula.expression)) {
+        checkVariable(name, pointer("formulas", index, "expression"));
+      }
+    }
+    Object.entries(formula.variableLinkage ?? {}).forEach(([local, name]) =>
+      checkVariable(name, pointer("formulas", index, "variableLinkage", local))
+    );
+    formula.samples?.forEach((sample, sampleIndex) => {
+      for (const part of ["inputs", "expected"] as const) {
+        for (const name of Object.keys(sample[part])) {
+          checkVariable(
+            name,
+            pointer("formulas", index, "samples", sampleIndex, part, name)
+          );
+        }
+      }
+    });
+  });
+
+  Object.entries(document.variables).forEach(([name, variable]) => {
+    checkVariable(variable.key, pointer("variables", name, "key"));
+    checkVariable(variable.memberOf, pointer("variables", name, "memberOf"));
+    if (variable.range && variable.range[0] > variable.range[1]) {
+      issues.push(
+        `${pointer("variables", name, "range")}: minimum must not be greater than maximum`
+      );
+    }
+  });
+
+  document.visualizations?.forEach((visualization, index) => {
+    const path = (...keys: (string | number)[]) =>
+      pointer("visualizations", index, ...keys);
+    switch (visualization.type) {
+      case "plot2d":
+        checkVariable(visualization.xVar, path("xVar"));
+        checkVariable(visualization.yVar, path("yVar"));
+        visualization.vectors?.forEach((vector, vectorIndex) => {
+          checkVariable(
+            vector.variable,
+            path("vectors", vectorIndex, "variable")
+          );
+          if (typeof vector.origin === "string") {
+            checkVariable(
+              vector.origin,
+              path("vectors", vectorIndex, "origin")
+            );
+          }
+          (["x", "y"] as const).forEach((axis) =>
+            vector[axis]?.forEach((item, itemIndex) => {
+              if (typeof item === "string") {
+                checkVariable(
+                  item,
+                  path("vectors", vectorIndex, axis, itemIndex)
+                );
+              }
+            })
+          );
+        });
+        visualization.lines?.forEach((line, lineIndex) => {
+          (
+            ["xVar", "yVar", "parameter", "implicitVar", "radiusVar"] as const
+          ).forEach((key) =>
+            checkVariable(line[key], path("lines", lineIndex, key))
+          );
+          if (line.formula) {
+            checkFormula(line.formula, path("lines", lineIndex, "formula"));
+          }
+          Object.keys(line.values ?? {}).forEach((name) =>
+            checkVariable(name, path("lines", lineIndex, "values", name))
+          );
+          if (
+            line.parameterRange &&
+            line.parameterRange[0] > line.parameterRange[1]
+          ) {
+            issues.push(
+              `${path("lines", lineIndex, "parameterRange")}: minimum must not be greater than maximum`
+            );
+          }
+        });
+        visualization.regions?.forEach((region, regionIndex) => {
+          (["yVar", "lowerVar", "from", "to"] as const).forEach((key) => {
+            const value = region[key];
+            if (typeof value === "string") {
+              checkVariable(value, path("regions", regionIndex, key));
+            }
+          });
+          (["formula", "lowerFormula"] as const).forEach((key) => {
+            const name = region[key];
+            if (name) checkFormula(name, path("regions", regionIndex, key));
+          });
+        });
+        visualization.referenceLines?.forEach((line, lineIndex) => {
+          if (typeof line.value === "string") {
+            checkVariable(
+              line.value,
+              path("referenceLines", lineIndex, "value")
+            );
+          }
+        });
+        visualization.annotations?.forEach((annotation, annotationIndex) =>
+          (["x", "y"] as const).forEach((key) => {
+            const value = annotation[key];
+            if (typeof value === "string") {
+              checkVariable(value, path("annotations", annotationIndex, key));
+            }
+          })
+        );
+        visualization.tangents?.forEach((tangent, tangentIndex) => {
+          checkVariable(tangent.yVar, path("tangents", tangentIndex, "yVar"));
+          if (tangent.formula) {
+            checkFormula(
+              tangent.formula,
+              path("tangents", tangentIndex, "formula")
+            );
+          }
+        });
+        break;
+      case "plot3d":
+        checkVariable(visualization.xVar, path("xVar"));
+        checkVariable(visualization.yVar, path("yVar"));
+        checkVariable(visualization.zVar, path("zVar"));
+        visualization.surfaces?.forEach((surface, surfaceIndex) =>
+          checkFormula(
+            surface.formulaName,
+            path("surfaces", surfaceIndex, "formulaName")
+          )
+        );
+        visualization.lines?.forEach((line, lineIndex) => {
+          if (line.surfaceIntersection) {
+            const { surface1, surface2 } = line.surfaceIntersection;
+            const intersection = ["lines", lineIndex, "surfaceIntersection"];
+            checkFormula(surface1, path(...intersection, "surface1"));
+            checkFormula(surface2, path(...intersection, "surface2"));
+          }
+        });
+        break;
+      case "custom":
+        visualization.variables.forEach((name, nameIndex) =>
+          checkVariable(name, path("variables", nameIndex))
+        );
+        break;
+    }
+  });
+
+  document.controls?.forEach((control, index) =>
+    checkVariable(control.variable, pointer("controls", index, "variable"))
+  );
+
+  return issues;
+}
+
+/**
+ * Validates a parsed document against the Formulize schema and checks its
+ * references
+ * @throws Error listing every problem with its JSON pointer
+ */
+export function validateFormulizeDocument(
+  document: unknown
+): IFormulizeDocument {
+  if (!validateSchema(document)) {
+    throwDocumentErrors((validateSchema.errors ?? []).map(describeSchemaError));
+  }
+  const issues = findReferenceErrors(document);
+  if (issues.length > 0) throwDocumentErrors(issues);
+  return document;
+}
+
+/**
+ * Compiles the source text of a manual function into a sandboxed function.
+ * The source may be a whole function (`function (variables) { ... }`) or
+ * just the body of a function that receives `variables`.
+ * @param source - The manual function source
+ * @param path - JSON pointer of the source, used in error messages
+ */
+export function compileManualSource(
+  source: string,
+  path: string = "manual"
+): NonNullable<IFormula["manual"]> {
+  const trimmed = source.trim();
+  const functionSource = /^function\b/.test(trimmed)
+    ? trimmed
+    : `function (variables) {\n${trimmed}\n}`;
+  try {
+    // Parse once up front so that syntax errors point at the document
+    runInSandbox(`(${functionSource});`, { maxSteps: 1000 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid Formulize document:\n  ${path}: ${message}`);
+  }
+  return createSandboxedFunction(functionSource, { globals: MANUAL_GLOBALS });
+}
+
+/**
+ * Loads a Formulize document into an environment
+ * @param source - JSON or YAML text, or an already parsed document
+ * @param format - The format of text sources, detected if omitted
+ * @throws Error listing every problem with its JSON pointer
+ */
+export function loadFormulizeDocument(
+  source: string | object,
+  format?: DocumentFormat
+): IEnvironment {
+  const parsed =
+    typeof source === "string"
+      ? parseFormulizeDocument(source, format)
+      : source;
+  const document = validateFormulizeDocument(parsed);
+
+  return {
+    formulas: document.formulas.map((formula, index) => ({
+      ...formula,
+      manual:
+        formula.manual !== undefined
+          ? compileManualSource(
+              formula.manual,
+              pointer("formulas", index, "manual")
+            )
+          : undefined,
+    })),
+    variables: document.variables,
+    computation: document.computation,
+    visualizations: document.visualizations,
+    controls: document.controls as IControls[] | undefined,
+    fontSize: document.fontSize,
+  };
+}
+
+// Copies plain data, dropping functions
+const cloneData = <T>(value: T): T =>
+  value === undefined ? value : JSON.parse(JSON.stringify(value));
+
+/**
+ * Converts an environment into a serializable document, storing manual
+ * functions as source text
+ */
+export function toFormulizeDocument(
+  environment: IEnvironment
+): IFormulizeDocument {
+  const document: IFormulizeDocument = {
+    version: 1,
+    formulas: environment.formulas.map(({ manual, ...formula }) => ({
+      ...cloneData(formula),
+      ...(manual ? { manual: manual.toString() } : {}),
+    })),
+    variables: Object.fromEntries(
+      Object.entries(environment.variables).map(([name, variable]) => [
+        name,
+        {
+          ...cloneData(variable),
+          ...(variable.value !== undefined
+            ? { value: cloneData(variable.value) as VariableValue }
+            : {}),
+        },
+      ])
+    ),
+    computation: cloneData({ ...environment.computation, mappings: undefined }),
+  };
+  if (environment.visualizations) {
+    document.visualizations = cloneData(environment.visualizations);
+  }
+  if (environment.controls) {
+    document.controls = cloneData(environment.controls);
+  }
+  if (environment.fontSize !== undefined) {
+    document.fontSize = environment.fontSize;
+  }
+  return document;
+}
+
+/**
+ * Serializes a document as JSON or YAML text
+ */
+export function stringifyFormulizeDocument(
+  document: IFormulizeDocument,
+  format: DocumentFormat = "json"
+): string {
+  return format === "json"
+    ? JSON.stringify(document, null, 2)
+    : yaml.dump(document, { noRefs: true, lineWidth: -1 });
+}
@@ -0,0 +1,386 @@
+/**
+ * Dependency Graph for Formulize
+ *
+ * Builds a graph of formulas from the variables each formula reads and the
+ * variables it defines, so that formulas can be evaluated in topological order
+ * and only the formulas downstream of a changed variable are recomputed.
+ */
+import { isObservableMap } from "mobx";
+
+import { IFormula } from "../types/formula";
+import { IVariable, VariableValue } from "../types/variable";
+import { isValidValue } from "../util/variable-value";
+
+export interface FormulaDependencies {
+  name: string;
+  index: number; // Index of the formula in environment.formulas
+  reads: string[];
+  defines: string[];
+}
+
+export interface DependencyGraph {
+  nodes: FormulaDependencies[];
+  order: FormulaDependencies[]; // Nodes in topological order
+  producers: Map<string, FormulaDependencies>; // Variable -> defining formula
+}
+
+type VariableDefinitions =
+  | Map<string, IVariable>
+  | Record<string, Pick<IVariable, "type">>;
+
+/**
+ * Extracts variable names wrapped in curly braces from an expression
+ */
+export function extractExpressionVariables(expression: string): string[] {
+  const matches = expression.match(/\{([^}]+)\}/g);
+  if (!matches) return [];
+  return Array.from(new Set(matches.map((match) => match.slice(1, -1))));
+}
+
+/**
+ * Splits an equation at its assignment "=" (ignoring "==", "<=", ">=" and "!=")
+ */
+export function splitEquation(expression: string): [string, string] | null {
+  const match = expression.match(/^(.*?[^=<>!])=(?!=)(.*)$/);
+  if (!match) return null;
+  return [match[1].trim(), match[2].trim()];
+}
+
+/**
+ * Returns the variables assigned by one side of an equation when that side is
+ * a lone variable ({K}) or a list of variables ([{cx}, {cy}])
+ */
+function getAssignedVariables(side: string): string[] | null {
+  const single = side.match(/^\{([^}]+)\}$/);
+  if (single) return [single[1]];
+
+  const list = side.match(/^\[(.*)\]$/);
+  if (list) {
+    const items = list[1].split(",").map((item) => item.trim());
+    const names = items.map((item) => item.match(/^\{([^}]+)\}$/)?.[1]);
+    if (names.length > 0 && names.every((name) => name !== undefined)) {
+      return names as string[];
+    }
+  }
+  return null;
+}
+
+// Store variables are MobX observable maps, which are not Map instances
+function getVariableEntries(
+  variables: VariableDefinitions
+): [string, Pick<IVariable, "type">][] {
+  return variables instanceof Map || isObservableMap(variables)
+    ? Array.from(variables.entries())
+    : Object.entries(variables);
+}
+
+function getDependentNames(variables: VariableDefinitions): string[] {
+  return getVariableEntries(variables)
+    .filter(([, variable]) => variable.type === "dependent")
+    .map(([name]) => name);
+}
+
+function getNonDependentNames(variables: VariableDefinitions): string[] {
+  return getVariableEntries(variables)
+    .filter(([, variable]) => variable.type !== "dependent")
+    .map(([name]) => name);
+}
+
+/**
+ * Determines which dependent variables an expression defines.
+ * Prefers the side of the equation that is a lone variable (or variable list),
+ * otherwise every dependent variable in the expression is treated as defined.
+ */
+function getExpressionDefines(
+  expression: string,
+  dependentNames: string[]
+): string[] {
+  const sides = splitEquation(expression);
+  if (sides) {
+    for (const side of sides) {
+      const assigned = getAssignedVariables(side);
+      const defined = assigned?.filter((name) => dependentNames.includes(name));
+      if (defined && defined.length > 0) return defined;
+    }
+  }
+  return extractExpressionVariables(expression).filter((name) =>
+    dependentNames.includes(name)
+  );
+}
+
+/**
+ * Whether an expression relates dependent variables without assigning one,
+ * such as {x} + {y} + {z} = 1
+ */
+function isConstraint(formula: IFormula, dependentNames: string[]): boolean {
+  if (!formula.expression) return false;
+  const sides = splitEquation(formula.expression);
+  return !sides?.some((side) =>
+    getAssignedVariables(side)?.some((name) => dependentNames.includes(name))
+  );
+}
+
+/**
+ * Whether LaTeX contains a variable name as a whole identifier, so that v is
+ * not found in v_0 or vx
+ */
+function containsIdentifier(latex: string, name: string): boolean {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?<![A-Za-z0-9_\\\\])${escaped}(?![A-Za-z0-9_'])`).test(
+    latex
+  );
+}
+
+/**
+ * Determines which dependent variable a manual function defines from the
+ * left-hand side of the formula's display LaTeX
+ */
+function getManualDefines(
+  formula: IFormula,
+  dependentNames: string[]
+): string[] {
+  const lhs = formula.function.split("=")[0]?.trim() ?? "";
+  const exact = dependentNames.filter((name) => name === lhs);
+  if (exact.length > 0) return exact;
+
+  const contained = dependentNames.filter((name) =>
+    containsIdentifier(lhs, name)
+  );
+  if (contained.length === 1) return contained;
+
+  // A single dependent variable can only be defined by this formula
+  if (dependentNames.length === 1) return dependentNames;
+  return [];
+}
+
+/**
+ * Determines which variables a manual function reads by scanning its source
+ * for `variables.name` and `variables["name"]` accesses
+ */
+function getManualReads(
+  manual: NonNullable<IFormula["manual"]>,
+  inputNames: string[]
+): string[] {
+  const source = manual.toString();
+  const pattern =
+    /variables(?:\.([A-Za-z_$][\w$]*)|\[\s*["'`]([^"'`]+)["'`]\s*\])/g;
+  const reads = new Set<string>();
+  for (const match of source.matchAll(pattern)) {
+    reads.add(match[1] ?? match[2]);
+  }
+  // Fall back to every non-dependent variable when accesses cannot be
+  // determined statically, so that no false cycles are introduced
+  return reads.size > 0 ? Array.from(reads) : inputNames;
+}
+
+/**
+ * Finds the variables a formula reads and defines
+ */
+export function getFormulaDependencies(
+  formula: IFormula,
+  index: number,
+  variables: VariableDefinitions
+): FormulaDependencies {
+  const dependentNames = getDependentNames(variables);
+
+  let defines: string[] = [];
+  let reads: string[] = [];
+
+  if (formula.expression) {
+    defines = getExpressionDefines(formula.expression, dependentNames);
+    reads = extractExpressionVariables(formula.expression);
+  } else if (formula.manual) {
+    defines = getManualDefines(formula, dependentNames);
+    reads = getManualReads(formula.manual, getNonDependentNames(variables));
+  }
+
+  return {
+    name: formula.name,
+    index,
+    reads: reads.filter((name) => !defines.includes(name)),
+    defines,
+  };
+}
+
+/**
+ * Finds a cycle among formula nodes, returning the nodes along it
+ */
+function findCycle(
+  nodes: FormulaDependencies[],
+  producers: Map<string, FormulaDependencies>
+): FormulaDependencies[] | null {
+  const state = new Map<FormulaDependencies, "visiting" | "done">();
+  const stack: FormulaDependencies[] = [];
+
+  const visit = (node: FormulaDependencies): FormulaDependencies[] | null => {
+    state.set(node, "visiting");
+    stack.push(node);
+    for (const read of node.reads) {
+      const producer = producers.get(read);
+      if (!producer) continue;
+      if (state.get(producer) === "visiting") {
+        return [...stack.slice(stack.indexOf(producer)), producer];
+      }
+      if (!state.has(producer)) {
+        const cycle = visit(producer);
+        if (cycle) return cycle;
+      }
+    }
+    stack.pop();
+    state.set(node, "done");
+    return null;
+  };
+
+  for (const node of nodes) {
+    if (!state.has(node)) {
+      const cycle = visit(node);
+      if (cycle) return cycle;
+    }
+  }
+  return null;
+}
+
+/**
+ * Builds the dependency graph for a set of formulas
+ * @throws Error naming the formulas involved when the graph contains a cycle
+ */
+export function buildDependencyGraph(
+  formulas: IFormula[],
+  variables: VariableDefinitions
+): DependencyGraph {
+  const producers = new Map<string, FormulaDependencies>();
+  const nodes = formulas.map((formula, index) =>
+    getFormulaDependencies(formula, index, variables)
+  );
+  const dependentNames = getDependentNames(variables);
+  const constraints = new Set(
+    nodes.filter((node) => isConstraint(formulas[node.index], dependentNames))
+  );
+
+  // A variable is defined by the first formula that assigns it. Constraints
+  // like {x} + {y} = 1 only define variables no formula assigns.
+  for (const node of nodes) {
+    if (constraints.has(node)) continue;
+    node.defines = node.defines.filter((name) => {
+      const producer = producers.get(name);
+      if (producer) {
+        console.warn(
+          `⚠️ Variable "${name}" is defined by both "${producer.name}" and "${node.name}", using "${producer.name}"`
+        );
+        return false;
+      }
+      producers.set(name, node);
+      return true;
+    });
+  }
+  for (const node of constraints) {
+    node.defines = node.defines.filter((name) => {
+      if (producers.has(name)) return false;
+      producers.set(name, node);
+      return true;
+    });
+  }
+
+  const cycle = findCycle(nodes, producers);
+  if (cycle) {
+    const path = cycle.map((node) => `"${node.name}"`).join(" → ");
+    const via = cycle
+      .slice(0, -1)
+      .flatMap((node) => node.defines)
+      .join(", ");
+    throw new Error(
+      `Circular dependency between formulas: ${path} (through variables: ${via})`
+    );
+  }
+
+  // Kahn's algorithm, keeping the authored order among independent formulas
+  const inDegree = new Map<FormulaDependencies, number>();
+  const consumers = new Map<FormulaDependencies, FormulaDependencies[]>();
+  for (const node of nodes) {
+    const upstream = new Set(
+      node.reads
+        .map((name) => producers.get(name))
+        .filter((producer): producer is FormulaDependencies => !!producer)
+    );
+    inDegree.set(node, upstream.size);
+    for (const producer of upstream) {
+      consumers.set(producer, [...(consumers.get(producer) ?? []), node]);
+    }
+  }
+
+  const order: FormulaDependencies[] = [];
+  const ready = nodes.filter((node) => inDegree.get(node) === 0);
+  while (ready.length > 0) {
+    ready.sort((a, b) => a.index - b.index);
+    const node = ready.shift()!;
+    order.push(node);
+    for (const consumer of consumers.get(node) ?? []) {
+      const remaining = inDegree.get(consumer)! - 1;
+      inDegree.set(consumer, remaining);
+      if (remaining === 0) ready.push(consumer);
+    }
+  }
+
+  return { nodes, order, producers };
+}
+
+/**
+ * Gets the formulas that must be recomputed when the given variables change,
+ * in topological order
+ */
+export function getDownstreamFormulas(
+  graph: DependencyGraph,
+  changedVariables: string[]
+): FormulaDependencies[] {
+  const changed = new Set(changedVariables);
+  const affected = new Set<FormulaDependencies>();
+
+  // The order is topological, so a single pass reaches the whole subgraph
+  for (const node of graph.order) {
+    if (node.reads.some((name) => changed.has(name))) {
+      affected.add(node);
+      node.defines.forEach((name) => changed.add(name));
+    }
+  }
+
+  return graph.order.filter((node) => affected.has(node));
+}
+
+/**
+ * Evaluates formula nodes in order, feeding each node's results into the
+ * scope of the nodes that follow it
+ * @param onError - Called when a node fails; the remaining nodes still run
+ * @returns The values computed for the defined variables
+ */
+export function evaluateInOrder(
+  nodes: FormulaDependencies[],
+  variables: Record<string, VariableValue>,
+  evaluateNode: (
+    node: FormulaDependencies,
+    scope: Record<string, VariableValue>
+  ) => Record<string, VariableValue>,
+  onError: (node: FormulaDependencies, error: unknown) => void = (
+    node,
+    error
+  ) => console.error(`Error evaluating formula "${node.name}":`, error)
+): Record<string, VariableValue> {
+  const scope = { ...variables };
+  const results: Record<string, VariableValue> = {};
+
+  for (const node of nodes) {
+    try {
+      const output = evaluateNode(node, scope);
+      for (const name of node.defines) {
+        const value = output[name];
+        if (isValidValue(value)) {
+          results[name] = value;
+          scope[name] = value;
+        }
+      }
+    } catch (error) {
+      onError(node, error);
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,302 @@
+/**
+ * Export of Editor Formulas
+ *
+ * Builds a Formulize config from the formula on the editor page: one formula
+ * per row of an aligned formula, the variables marked in the editor with
+ * their types, values and ranges, and, where the LaTeX can be read as
+ * arithmetic, an expression for the symbolic-algebra engine.
+ */
+import {
+  Aligned,
+  AugmentedFormula,
+  AugmentedFormulaNode,
+} from "../FormulaTree";
+import { IEnvironment } from "../types/environment";
+import { IFormula } from "../types/formula";
+import { IVariable } from "../types/variable";
+import { ComputationStore, computationStore } from "./computation";
+
+// Expression text with what it is, for inserting implicit multiplication
+interface Token {
+  text: string;
+  kind: "operand" | "operator" | "function" | "postfix";
+}
+
+const OPERATORS: Record<string, string> = {
+  "=": "=",
+  "+": "+",
+  "-": "-",
+  "*": "*",
+  "\\cdot": "*",
+  "\\times": "*",
+  "/": "/",
+  "\\div": "/",
+  ",": ",",
+};
+
+const CONSTANTS: Record<string, string> = {
+  "\\pi": "pi",
+  "\\infty": "Infinity",
+};
+
+// LaTeX functions and their math.js names
+const FUNCTIONS: Record<string, string> = {
+  sin: "sin",
+  cos: "cos",
+  tan: "tan",
+  sec: "sec",
+  csc: "csc",
+  cot: "cot",
+  arcsin: "asin",
+  arccos: "acos",
+  arctan: "atan",
+  sinh: "sinh",
+  cosh: "cosh",
+  tanh: "tanh",
+  exp: "exp",
+  ln: "log",
+  log: "log10",
+};
+
+const operand = (text: string): Token => ({ text, kind: "operand" });
+
+const isNumeral = (text: string) => /^[0-9.]+$/.test(text);
+
+// Join tokens, multiplying adjacent operands and applying functions to the
+// operand after them
+const joinTokens = (tokens: Token[]): string | null => {
+  const output: Token[] = [];
+  let pendingFunction: string | null = null;
+  for (const token of tokens) {
+    if (pendingFunction !== null) {
+      if (token.kind !== "operand") return null;
+      output.push(operand(`${pendingFunction}(${token.text})`));
+      pendingFunction = null;
+      continue;
+    }
+    if (token.kind === "function") {
+      pendingFunction = token.text;
+      continue;
+    }
+    const previous = output[output.length - 1];
+    if (
+      previous &&
+      token.kind === "operand" &&
+      (previous.kind === "operand" || previous.kind === "postfix")
+    ) {
+      // Digits are separate symbols in the tree
+      if (isNumeral(previous.text) && isNumeral(token.text)) {
+        previous.text += token.text;
+        continue;
+      }
+      output.push({ text: "*", kind: "operator" });
+    }
+    output.push({ ...token });
+  }
+  if (pendingFunction !== null) return null;
+  return output
+    .map((token) =>
+      token.kind === "operator" && token.text !== ","
+        ? ` ${token.text} `
+        : token.text
+    )
+    .join("")
+    .replace(/ ,/g, ",")
+    .trim();
+};
+
+// Whether the whole expression is inside one pair of parentheses
+const isParenthesized = (text: string): boolean => {
+  if (!text.startsWith("(") || !text.endsWith(")")) return false;
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "(") depth++;
+    if (text[i] === ")") depth--;
+    if (depth === 0 && i < text.length - 1) return false;
+  }
+  return true;
+};
+
+// Wrap an expression in parentheses unless it is a single name or number or
+// already parenthesized
+const wrap = (text: string) =>
+  /^[\w.{}\\]+$/.test(text) || isParenthesized(text) ? text : `(${text})`;
+
+const nodesToTokens = (
+  nodes: AugmentedFormulaNode[],
+  variables: Set<string>
+): Token[] | null => {
+  const tokens: Token[] = [];
+  for (const node of nodes) {
+    const converted = nodeToTokens(node, variables);
+    if (converted === null) return null;
+    tokens.push(...converted);
+  }
+  return tokens;
+};
+
+const nodesToExpression = (
+  nodes: AugmentedFormulaNode[],
+  variables: Set<string>
+): string | null => {
+  const tokens = nodesToTokens(nodes, variables);
+  return tokens ? joinTokens(tokens) : null;
+};
+
+const nodeToExpression = (
+  node: AugmentedFormulaNode,
+  variables: Set<string>
+): string | null => nodesToExpression([node], variables);
+
+const symbolToToken = (value: string, variables: Set<string>): Token | null => {
+  if (variables.has(value)) return operand(`{${value}}`);
+  if (OPERATORS[value]) return { text: OPERATORS[value], kind: "operator" };
+  if (CONSTANTS[value]) return operand(CONSTANTS[value]);
+  if (value === "!") return { text: "!", kind: "postfix" };
+  // Letters that aren't variables have no value to evaluate with
+  if (/^[0-9.]$/.test(value)) return operand(value);
+  return null;
+};
+
+function nodeToTokens(
+  node: AugmentedFormulaNode,
+  variables: Set<string>
+): Token[] | null {
+  switch (node.type) {
+    case "symbol": {
+      const token = symbolToToken(node.value, variables);
+      return token ? [token] : null;
+    }
+    case "variable":
+      return variables.has(node.originalSymbol)
+        ? [operand(`{${node.originalSymbol}}`)]
+        : null;
+    case "script": {
+      // Annotation captions under or over braces aren't part of the math
+      if (node.base.type === "brace") {
+        return nodeToTokens(node.base, variables);
+      }
+      let base: string | null;
+      if (node.sub) {
+        // A subscripted name such as v_0 is a variable of its own
+        const name = `${node.base.toLatex("content-only", 0)[0]}_${node.sub.toLatex("content-only", 0)[0]}`;
+        base = variables.has(name) ? `{${name}}` : null;
+      } else {
+        base = nodeToExpression(node.base, variables);
+      }
+      if (base === null) return null;
+      if (!node.sup) return [operand(base)];
+      const exponent = nodeToExpression(node.sup, variables);
+      return exponent === null
+        ? null
+        : [operand(`${wrap(base)}^${wrap(exponent)}`)];
+    }
+    case "frac": {
+      const numerator = nodeToExpression(node.numerator, variables);
+      const denominator = nodeToExpression(node.denominator, variables);
+      if (numerator === null || denominator === null) return null;
+      return [operand(`(${wrap(numerator)} / ${wrap(denominator)})`)];
+    }
+    case "root": {
+      const body = nodeToExpression(node.body, variables);
+      if (body === null) return null;
+      if (!node.index) return [operand(`sqrt(${body})`)];
+      const index = nodeToExpression(node.index, variables);
+      return index === null ? null : [operand(`nthRoot(${body}, ${index})`)];
+    }
+    case "op": {
+      const name = FUNCTIONS[node.operator.replace(/^\\/, "")];
+      return name ? [{ text: name, kind: "function" }] : null;
+    }
+    case "delimited": {
+      const body = nodesToExpression(node.body, variables);
+      if (body === null) return null;
+      const absolute = node.left === "|" || node.left === "\\vert";
+      return [operand(absolute ? `abs(${body})` : `(${body})`)];
+    }
+    case "color":
+    case "group":
+      return nodesToTokens(node.body, variables);
+    case "box":
+    case "strikethrough":
+      return nodeToTokens(node.body, variables);
+    case "brace":
+      return nodeToTokens(node.base, variables);
+    case "space":
+      return [];
+    case "text":
+    case "array":
+    case "matrix":
+      return null;
+  }
+}
+
+/**
+ * Read a formula's LaTeX tree as a math.js expression with the given
+ * variables in braces, e.g. "{K} = 1 / 2 * {m} * {v}^2"
+ * @returns The expression, or null if part of the formula can't be read
+ */
+export const formulaToExpression = (
+  nodes: AugmentedFormulaNode[],
+  variableNames: string[]
+): string | null => {
+  const expression = nodesToExpression(nodes, new Set(variableNames));
+  return expression && expression.includes("=") ? expression : null;
+};
+
+// Rows of the formula: each row of an aligned formula, or the whole formula
+const getFormulaRows = (
+  formula: AugmentedFormula
+): AugmentedFormulaNode[][] => {
+  const [root] = formula.children;
+  if (formula.children.length === 1 && root instanceof Aligned) {
+    return root.body;
+  }
+  return [formula.children];
+};
+
+/**
+ * Build a Formulize config from an editor formula and the variables marked
+ * in the computation store
+ */
+export function exportEditorFormula(
+  formula: AugmentedFormula,
+  store: ComputationStore = computationStore
+): IEnvironment {
+  const variableNames = Array.from(store.variables.keys());
+  const formulas: IFormula[] = getFormulaRows(formula)
+    .filter((row) => row.length > 0)
+    .map((row, index) => {
+      const expression = formulaToExpression(row, variableNames);
+      return {
+        name: `Formula ${index + 1}`,
+        function: new AugmentedFormula(row).toLatex("no-id").trim(),
+        ...(expression ? { expression } : {}),
+      };
+    });
+
+  const variables: Record<string, IVariable> = {};
+  for (const [name, variable] of store.variables.entries()) {
+    variables[name] = {
+      type: variable.type,
+      ...(variable.type !== "dependent" && variable.value !== undefined
+        ? { value: variable.value }
+        : {}),
+      ...(variable.type === "input" && variable.range
+        ? { range: [...variable.range] as [number, number] }
+        : {}),
+      ...(variable.step !== undefined ? { step: variable.step } : {}),
+      ...(variable.units ? { units: variable.units } : {}),
+      ...(variable.label ? { label: variable.label } : {}),
+      ...(variable.precision !== undefined
+        ? { precision: variable.precision }
+        : {}),
+    };
+  }
+
+  return {
+    formulas,
+    variables,
+    computation: { engine: "symbolic-algebra" },
+  };
+}
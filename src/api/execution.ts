@@ -12,7 +12,7 @@ import { JSInterpreter } from "./computation-engines/manual/interpreter";
  * MobX store for execution state that provides immediate updates
  * without the async batching behavior of React useState
  */
-class ExecutionStore {
+export class ExecutionStore {
   // Core execution state
   code: string = "";
   environment: IEnvironment | null = null;
@@ -0,0 +1,118 @@
+/**
+ * Standalone HTML Export
+ *
+ * Writes a Formulize instance as one self-contained HTML file that works
+ * offline: the standalone runtime (npm run build:standalone), MathJax with
+ * SVG output, which needs no font files, and the config with the current
+ * variable values are all inlined. MathJax is loaded from the app's own
+ * bundle on the first export. Visualizations registered with register()
+ * are not included.
+ */
+import { toJS } from "mobx";
+
+import { IEnvironment } from "../types/environment";
+import { ComputationStore } from "./computation";
+import {
+  stringifyFormulizeDocument,
+  toFormulizeDocument,
+} from "./config/loader";
+
+// Type of the script elements the standalone runtime renders
+export const STANDALONE_CONFIG_TYPE = "application/formulize+json";
+
+export interface ExportHTMLOptions {
+  // Title of the page (defaults to the first formula's name)
+  title?: string;
+  // URL of the standalone build's files (defaults to /standalone/ of this app)
+  assetsUrl?: string;
+}
+
+const STANDALONE_FILES = {
+  runtime: "formulize.js",
+  styles: "style.css",
+};
+
+const MATHJAX_CONFIG = {
+  tex: { packages: { "[+]": ["html", "color", "cancel"] } },
+  svg: { fontCache: "global" },
+  startup: { typeset: false },
+};
+
+async function fetchAsset(assetsUrl: string, file: string): Promise<string> {
+  const url = new URL(file, new URL(assetsUrl, window.location.href));
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(
+      `Could not load ${url} (${response.status}). Build the standalone runtime with "npm run build:standalone"`
+    );
+  }
+  return response.text();
+}
+
+// Inlined code and JSON must not close their script element
+const escapeScript = (code: string) =>
+  code.replace(/<\/script/gi, "<\\/script");
+
+const escapeJSON = (json: string) => json.replace(/</g, "\\u003c");
+
+const escapeHTML = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Export an environment with the current values of a computation store as a
+ * standalone HTML page
+ */
+export async function exportStandaloneHTML(
+  environment: IEnvironment,
+  store: ComputationStore,
+  options: ExportHTMLOptions = {}
+): Promise<string> {
+  const assetsUrl =
+    options.assetsUrl ?? `${import.meta.env.BASE_URL ?? "/"}standalone/`;
+  const [runtime, styles, { default: mathJax }] = await Promise.all([
+    fetchAsset(assetsUrl, STANDALONE_FILES.runtime),
+    fetchAsset(assetsUrl, STANDALONE_FILES.styles),
+    import("mathjax-full/es5/tex-svg-full.js?raw"),
+  ]);
+
+  // Start from the values the variables have now
+  const document = toFormulizeDocument(environment);
+  for (const [name, variable] of Object.entries(document.variables)) {
+    const current = store.variables.get(name)?.value;
+    if (variable.type !== "dependent" && current !== undefined) {
+      variable.value = toJS(current);
+    }
+  }
+
+  const title = options.title ?? environment.formulas[0]?.name ?? "Formulize";
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeHTML(title)}</title>
+    <style>
+${styles}
+    </style>
+    <script>
+      window.MathJax = ${JSON.stringify(MATHJAX_CONFIG)};
+    </script>
+    <script>
+${escapeScript(mathJax)}
+    </script>
+  </head>
+  <body>
+    <script type="${STANDALONE_CONFIG_TYPE}">
+${escapeJSON(stringifyFormulizeDocument(document))}
+    </script>
+    <script>
+${escapeScript(runtime)}
+    </script>
+  </body>
+</html>
+`;
+}
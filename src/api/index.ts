@@ -5,8 +5,61 @@ export type { FormulizeConfig, FormulizeInstance } from "./Formulize";
 // Export computation API
 export { computationStore } from "./computation";
 
+// Export serializable document API
+export {
+  formulizeSchema,
+  loadFormulizeDocument,
+  parseFormulizeDocument,
+  validateFormulizeDocument,
+  toFormulizeDocument,
+  stringifyFormulizeDocument,
+} from "./config/loader";
+export type { DocumentFormat } from "./config/loader";
+
 // Export utility functions
 export { setVariable } from "./propagation";
+export { exportEditorFormula, formulaToExpression } from "./editor-export";
+export { exportStandaloneHTML } from "./html-export";
+export type { ExportHTMLOptions } from "./html-export";
+
+// Export computation engine registration functions
+export {
+  registerEngine,
+  unregisterEngine,
+  getAllEngines,
+  getEngine,
+  isEngineRegistered,
+} from "./computation-engines/registry";
+export type {
+  ComputationEngine,
+  EngineEvaluatorContext,
+  EngineDisplayCodeContext,
+} from "./computation-engines/registry";
+export type {
+  EvaluationFunction,
+  ComputationEvent,
+  ComputationEventListener,
+  ComputationEventMap,
+} from "./computation";
+
+// Export LLM provider API
+export {
+  registerLLMProvider,
+  getLLMProvider,
+  getAllLLMProviders,
+  createOpenAIProvider,
+  createOllamaProvider,
+  createFixtureProvider,
+} from "./computation-engines/llm/providers";
+export type {
+  LLMProvider,
+  LLMRequest,
+} from "./computation-engines/llm/providers";
+export { clearFunctionCache } from "./computation-engines/llm/function-cache";
+export type {
+  VerificationCheck,
+  VerificationReport,
+} from "./computation-engines/llm/function-verifier";
 
 // Export custom visualization registration functions
 export {
@@ -18,10 +71,15 @@ export {
 } from "../visualizations/custom/registry";
 
 // Export types
-export type { IComputation } from "../types/computation";
+export type {
+  IComputation,
+  IVerification,
+  IVerificationSample,
+} from "../types/computation";
 export type { IEnvironment } from "../types/environment";
+export type { IFormulizeDocument } from "../types/document";
 export type { IFormula } from "../types/formula";
-export type { IVariable } from "../types/variable";
+export type { IVariable, VariableValue } from "../types/variable";
 export type { IVisualization } from "../types/visualization";
 export type { IPlot2D } from "../types/plot2d";
 export type { IPlot3D } from "../types/plot3d";
@@ -1,4 +1,5 @@
 import { IEnvironment } from "../types/environment";
+import { VariableValue } from "../types/variable";
 import { computationStore } from "./computation";
 
 /**
@@ -11,7 +12,7 @@ import { computationStore } from "./computation";
 export function setVariable(
   environment: IEnvironment,
   name: string,
-  value: number
+  value: VariableValue
 ): boolean {
   // Find the variable by name
   if (!environment.variables) {
@@ -0,0 +1,404 @@
+/**
+ * Sandboxed Execution for Formulize
+ *
+ * User-authored code never runs with access to the page. Config scripts typed
+ * into the editor run in a Web Worker whose globals are reduced to an
+ * allow-list of JavaScript built-ins, and the functions they define (manual
+ * functions, button handlers, mappings) are returned as source text. Those
+ * functions, manual functions loaded from documents and LLM-generated code run
+ * in JS-Interpreter, which only sees the whitelisted globals and is stopped
+ * after a step or time limit.
+ */
+import { JSInterpreter } from "./computation-engines/manual/interpreter";
+
+export interface SandboxOptions {
+  // Maximum number of interpreter steps per call
+  maxSteps?: number;
+  // Maximum wall-clock time per call in milliseconds
+  timeout?: number;
+  // Whitelisted API surface; functions are exposed as native functions
+  globals?: Record<string, unknown>;
+}
+
+export const DEFAULT_MAX_STEPS = 1_000_000;
+export const DEFAULT_TIMEOUT = 1000;
+export const CONFIG_SCRIPT_TIMEOUT = 5000;
+
+// Calls a sandboxed function makes in one interpreter before it is replaced,
+// as every call appends its program to the interpreter's
+const CALLS_PER_INTERPRETER = 1000;
+// Options JS-Interpreter parses code with
+const PARSE_OPTIONS = { ecmaVersion: 5, locations: true };
+
+// Marks a function that a config script defined, holding its source text
+const FUNCTION_KEY = "__formulizeFunction__";
+
+// Globals left in the config script worker, everything else is removed from
+// its scope before user code runs
+const ALLOWED_WORKER_GLOBALS = [
+  "Object",
+  "Function",
+  "Array",
+  "Number",
+  "Boolean",
+  "String",
+  "Symbol",
+  "BigInt",
+  "Date",
+  "RegExp",
+  "Promise",
+  "Map",
+  "Set",
+  "WeakMap",
+  "WeakSet",
+  "Proxy",
+  "Reflect",
+  "JSON",
+  "Math",
+  "Intl",
+  "Error",
+  "EvalError",
+  "RangeError",
+  "ReferenceError",
+  "SyntaxError",
+  "TypeError",
+  "URIError",
+  "ArrayBuffer",
+  "DataView",
+  "Int8Array",
+  "Uint8Array",
+  "Uint8ClampedArray",
+  "Int16Array",
+  "Uint16Array",
+  "Int32Array",
+  "Uint32Array",
+  "Float32Array",
+  "Float64Array",
+  "BigInt64Array",
+  "BigUint64Array",
+  "Infinity",
+  "NaN",
+  "undefined",
+  "isFinite",
+  "isNaN",
+  "parseFloat",
+  "parseInt",
+  "decodeURI",
+  "decodeURIComponent",
+  "encodeURI",
+  "encodeURIComponent",
+  "setTimeout",
+  "clearTimeout",
+  "setInterval",
+  "clearInterval",
+  "queueMicrotask",
+];
+
+// Globals available to every sandboxed function
+const DEFAULT_GLOBALS: Record<string, unknown> = {
+  console: {
+    log: (...args: unknown[]) => console.log(...args),
+    warn: (...args: unknown[]) => console.warn(...args),
+    error: (...args: unknown[]) => console.error(...args),
+  },
+};
+
+/**
+ * Globals for manual functions: view() marks a step mode breakpoint and does
+ * nothing during evaluation
+ */
+export const MANUAL_GLOBALS: Record<string, unknown> = {
+  view: () => undefined,
+};
+
+// Converts a whitelisted native value into an interpreter value
+function toPseudo(interpreter: JSInterpreter, value: unknown): unknown {
+  if (typeof value === "function") {
+    return interpreter.createNativeFunction((...args: unknown[]) =>
+      interpreter.nativeToPseudo(
+        value(...args.map((arg) => toNative(interpreter, arg)))
+      )
+    );
+  }
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const pseudo = interpreter.nativeToPseudo({});
+    for (const [key, item] of Object.entries(value)) {
+      interpreter.setProperty(pseudo, key, toPseudo(interpreter, item));
+    }
+    return pseudo;
+  }
+  return interpreter.nativeToPseudo(value);
+}
+
+function toNative(interpreter: JSInterpreter, value: unknown): unknown {
+  return interpreter.pseudoToNative ? interpreter.pseudoToNative(value) : value;
+}
+
+const parseError = (error: unknown) =>
+  new Error(
+    `Sandboxed code could not be parsed (only ES5 syntax is supported): ${
+      error instanceof Error ? error.message : error
+    }`
+  );
+
+/**
+ * Creates an interpreter for code, as source or a parsed AST, with the
+ * default and the given globals
+ * @returns The interpreter and its global object
+ */
+function createInterpreter(
+  code: string | object,
+  globals: Record<string, unknown>
+): { interpreter: JSInterpreter; globalObject: unknown } {
+  if (!window.Interpreter) {
+    throw new Error("Sandbox unavailable: JS-Interpreter not loaded.");
+  }
+  let globalObject: unknown;
+  try {
+    const interpreter = new window.Interpreter(code, (interp, global) => {
+      globalObject = global;
+      for (const [name, value] of Object.entries({
+        ...DEFAULT_GLOBALS,
+        ...globals,
+      })) {
+        interp.setProperty(global, name, toPseudo(interp, value));
+      }
+    });
+    return { interpreter, globalObject };
+  } catch (error) {
+    throw parseError(error);
+  }
+}
+
+// Steps an interpreter until its code is done and returns the completion value
+function runInterpreter(
+  interpreter: JSInterpreter,
+  { maxSteps = DEFAULT_MAX_STEPS, timeout = DEFAULT_TIMEOUT }: SandboxOptions
+) {
+  const deadline = Date.now() + timeout;
+  for (let steps = 1; ; steps++) {
+    let running: boolean;
+    try {
+      running = interpreter.step();
+    } catch (error) {
+      throw new Error(
+        `Error in sandboxed code: ${error instanceof Error ? error.message : error}`
+      );
+    }
+    if (!running) break;
+    if (steps > maxSteps) {
+      throw new Error(`Sandboxed code exceeded ${maxSteps} steps`);
+    }
+    if (steps % 1000 === 0 && Date.now() > deadline) {
+      throw new Error(`Sandboxed code exceeded ${timeout} ms`);
+    }
+  }
+  return toNative(interpreter, interpreter.value);
+}
+
+/**
+ * Runs code in JS-Interpreter (ES5) and returns its completion value
+ * @throws Error when the code fails, or exceeds its step or time limit
+ */
+export function runInSandbox(code: string, options: SandboxOptions = {}) {
+  const { interpreter } = createInterpreter(code, options.globals ?? {});
+  return runInterpreter(interpreter, options);
+}
+
+/**
+ * Creates a function that runs the given function source in the sandbox on
+ * every call. Arguments are copied in as plain data, so they must be
+ * JSON-serializable; toString() returns the original source.
+ *
+ * The source is parsed once and calls share an interpreter, which is
+ * replaced after a call fails, so globals a call assigns may be seen by the
+ * next one.
+ * @param source - The source of a function expression, e.g. `function (x) {...}`
+ */
+export function createSandboxedFunction<
+  T extends (...args: never[]) => unknown,
+>(source: string, options: SandboxOptions = {}): T {
+  let program: object | null = null;
+  let prepared: ReturnType<typeof createInterpreter> | null = null;
+  let calls = 0;
+
+  const sandboxed = (...args: unknown[]) => {
+    if (!program) {
+      if (!window.acorn) {
+        throw new Error("Sandbox unavailable: JS-Interpreter not loaded.");
+      }
+      try {
+        program = window.acorn.parse(
+          `(${source}).apply(null, __arguments__);`,
+          PARSE_OPTIONS
+        );
+      } catch (error) {
+        throw parseError(error);
+      }
+    }
+    if (!prepared || calls >= CALLS_PER_INTERPRETER) {
+      prepared = createInterpreter("", options.globals ?? {});
+      runInterpreter(prepared.interpreter, options);
+      calls = 0;
+    }
+    const { interpreter, globalObject } = prepared;
+    calls++;
+    try {
+      interpreter.setProperty(
+        globalObject,
+        "__arguments__",
+        interpreter.nativeToPseudo(JSON.parse(JSON.stringify(args)))
+      );
+      interpreter.appendCode(program);
+      return runInterpreter(interpreter, options);
+    } catch (error) {
+      // The interpreter may have stopped partway through the call
+      prepared = null;
+      throw error;
+    }
+  };
+  Object.defineProperty(sandboxed, "toString", { value: () => source });
+  return sandboxed as unknown as T;
+}
+
+// Source of the worker that runs config scripts and captures their config
+const CONFIG_WORKER_SOURCE = `"use strict";
+const send = self.postMessage.bind(self);
+const allowed = new Set(${JSON.stringify(ALLOWED_WORKER_GLOBALS)});
+// Removes every global that isn't allowed from the worker scope and its
+// prototypes, returning the names that could not be removed
+const lockDown = () => {
+  const remaining = [];
+  let scope = self;
+  while (scope && scope !== Object.prototype) {
+    const next = Object.getPrototypeOf(scope);
+    for (const name of Reflect.ownKeys(scope)) {
+      if (typeof name !== "string" || allowed.has(name)) continue;
+      try { delete scope[name]; } catch {}
+      if (!Object.prototype.hasOwnProperty.call(scope, name)) continue;
+      try { Object.defineProperty(scope, name, { value: undefined }); } catch {}
+      remaining.push(name);
+    }
+    scope = next;
+  }
+  return remaining;
+};
+const serialize = (value) => {
+  if (typeof value === "function") return { ${FUNCTION_KEY}: value.toString() };
+  if (Array.isArray(value)) return value.map(serialize);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, serialize(item)])
+    );
+  }
+  return value;
+};
+const format = (args) => args.map((arg) => {
+  try { return typeof arg === "string" ? arg : JSON.stringify(arg); }
+  catch { return String(arg); }
+}).join(" ");
+const run = async (code, blocked) => {
+  let captured = null;
+  const Formulize = {
+    create: async (config) => {
+      captured = config;
+      return {
+        formula: config,
+        getVariable: () => ({}),
+        setVariable: () => true,
+        update: async () => {},
+        destroy: () => {},
+      };
+    },
+  };
+  const log = (level) => (...args) => send({ type: "log", level, message: format(args) });
+  const sandboxConsole = { log: log("log"), warn: log("warn"), error: log("error") };
+  const AsyncFunction = (async () => {}).constructor;
+  // Globals that could not be removed are shadowed instead
+  const shadowed = blocked.filter((name) => /^[A-Za-z_$][\\w$]*$/.test(name));
+  const script = new AsyncFunction("Formulize", "console", ...shadowed, '"use strict";\\n' + code);
+  await script(Formulize, sandboxConsole);
+  if (!captured) {
+    throw new Error("No configuration was captured. Make sure your code calls Formulize.create(config)");
+  }
+  return serialize(captured);
+};
+self.onmessage = (event) => {
+  const { code } = event.data;
+  run(code, lockDown()).then(
+    (config) => send({ type: "result", config }),
+    (error) => send({ type: "error", message: error instanceof Error ? error.message : String(error) })
+  );
+};`;
+
+/**
+ * Replaces the functions of a config script, which arrive as source text,
+ * with sandboxed functions
+ */
+function reviveFunctions(value: unknown, options: SandboxOptions): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => reviveFunctions(item, options));
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    if (typeof record[FUNCTION_KEY] === "string") {
+      return createSandboxedFunction(record[FUNCTION_KEY], options);
+    }
+    return Object.fromEntries(
+      Object.entries(record).map(([key, item]) => [
+        key,
+        reviveFunctions(item, options),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Runs an editor config script in a worker and returns the config it passes
+ * to Formulize.create(), with its functions running in the sandbox
+ * @param code - The config script
+ * @param timeout - Time the script may take before the worker is terminated
+ * @throws Error when the script fails, times out or creates no config
+ */
+export function runConfigScript(
+  code: string,
+  timeout: number = CONFIG_SCRIPT_TIMEOUT
+): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(
+      new Blob([CONFIG_WORKER_SOURCE], { type: "text/javascript" })
+    );
+    const worker = new Worker(url);
+    const finish = () => {
+      clearTimeout(timer);
+      worker.terminate();
+      URL.revokeObjectURL(url);
+    };
+    const timer = setTimeout(() => {
+      finish();
+      reject(new Error(`Config script did not finish within ${timeout} ms`));
+    }, timeout);
+
+    worker.onmessage = (event: MessageEvent) => {
+      const message = event.data;
+      if (message.type === "log") {
+        const level = message.level as "log" | "warn" | "error";
+        console[level](message.message);
+        return;
+      }
+      finish();
+      if (message.type === "result") {
+        resolve(reviveFunctions(message.config, { globals: MANUAL_GLOBALS }));
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      finish();
+      reject(new Error(event.message || "Config script failed"));
+    };
+    worker.postMessage({ code });
+  });
+}
@@ -0,0 +1,363 @@
+/**
+ * Spoken Descriptions of Formulas
+ *
+ * Builds plain-language descriptions of formulas from their AugmentedFormula
+ * trees, e.g. "K equals one half m v squared", and of variable values, e.g.
+ * "K is 12.5 joules", for screen readers.
+ */
+import {
+  AugmentedFormula,
+  AugmentedFormulaNode,
+  deriveTreeWithVars,
+  parseVariableStrings,
+} from "../FormulaTree";
+import { VariableValue } from "../types/variable";
+import { isScalarValue } from "../util/variable-value";
+import { ComputationStore, computationStore } from "./computation";
+import { getDisplayUnits, normalizeUnits, toDisplayValue } from "./units";
+
+// Words for LaTeX symbols and commands
+const SYMBOL_WORDS: Record<string, string> = {
+  "=": "equals",
+  "+": "plus",
+  "-": "minus",
+  "\\pm": "plus or minus",
+  "\\cdot": "times",
+  "\\times": "times",
+  "*": "times",
+  "/": "divided by",
+  "\\div": "divided by",
+  "<": "is less than",
+  ">": "is greater than",
+  "\\le": "is less than or equal to",
+  "\\leq": "is less than or equal to",
+  "\\ge": "is greater than or equal to",
+  "\\geq": "is greater than or equal to",
+  "\\neq": "is not equal to",
+  "\\ne": "is not equal to",
+  "\\approx": "is approximately",
+  "\\propto": "is proportional to",
+  "\\infty": "infinity",
+  "\\partial": "partial",
+  "\\nabla": "nabla",
+  "\\sum": "the sum of",
+  "\\prod": "the product of",
+  "\\int": "the integral of",
+  "\\lim": "the limit of",
+  "\\sin": "sine",
+  "\\cos": "cosine",
+  "\\tan": "tangent",
+  "\\log": "log",
+  "\\ln": "natural log",
+  "\\exp": "exp",
+  "\\to": "to",
+  "\\rightarrow": "to",
+  "\\cdots": "dot dot dot",
+  "\\ldots": "dot dot dot",
+  "\\prime": "prime",
+  "!": "factorial",
+  ",": ",",
+};
+
+const GREEK_LETTERS = new Set([
+  "alpha",
+  "beta",
+  "gamma",
+  "delta",
+  "epsilon",
+  "varepsilon",
+  "zeta",
+  "eta",
+  "theta",
+  "vartheta",
+  "iota",
+  "kappa",
+  "lambda",
+  "mu",
+  "nu",
+  "xi",
+  "pi",
+  "rho",
+  "sigma",
+  "tau",
+  "upsilon",
+  "phi",
+  "varphi",
+  "chi",
+  "psi",
+  "omega",
+]);
+
+const NUMBER_WORDS = [
+  "zero",
+  "one",
+  "two",
+  "three",
+  "four",
+  "five",
+  "six",
+  "seven",
+  "eight",
+  "nine",
+  "ten",
+];
+
+const DENOMINATOR_WORDS: Record<number, [string, string]> = {
+  2: ["half", "halves"],
+  3: ["third", "thirds"],
+  4: ["quarter", "quarters"],
+  5: ["fifth", "fifths"],
+  6: ["sixth", "sixths"],
+  7: ["seventh", "sevenths"],
+  8: ["eighth", "eighths"],
+  9: ["ninth", "ninths"],
+  10: ["tenth", "tenths"],
+};
+
+// Singular and plural words for common unit symbols; other units are read
+// as written
+const UNIT_WORDS: Record<string, [string, string]> = {
+  m: ["meter", "meters"],
+  km: ["kilometer", "kilometers"],
+  cm: ["centimeter", "centimeters"],
+  mm: ["millimeter", "millimeters"],
+  s: ["second", "seconds"],
+  ms: ["millisecond", "milliseconds"],
+  min: ["minute", "minutes"],
+  h: ["hour", "hours"],
+  kg: ["kilogram", "kilograms"],
+  g: ["gram", "grams"],
+  N: ["newton", "newtons"],
+  J: ["joule", "joules"],
+  kJ: ["kilojoule", "kilojoules"],
+  W: ["watt", "watts"],
+  kW: ["kilowatt", "kilowatts"],
+  Pa: ["pascal", "pascals"],
+  Hz: ["hertz", "hertz"],
+  V: ["volt", "volts"],
+  A: ["ampere", "amperes"],
+  C: ["coulomb", "coulombs"],
+  K: ["kelvin", "kelvin"],
+  degC: ["degree Celsius", "degrees Celsius"],
+  rad: ["radian", "radians"],
+  deg: ["degree", "degrees"],
+  mol: ["mole", "moles"],
+  ohm: ["ohm", "ohms"],
+};
+
+const isNumeral = (word: string) => /^[0-9.]+$/.test(word);
+
+const symbolToWords = (symbol: string): string => {
+  if (SYMBOL_WORDS[symbol]) return SYMBOL_WORDS[symbol];
+  const command = symbol.match(/^\\([A-Za-z]+)$/);
+  if (command) {
+    const name = command[1];
+    if (GREEK_LETTERS.has(name.toLowerCase())) {
+      return name[0] === name[0].toUpperCase() ? `capital ${name}` : name;
+    }
+    return name;
+  }
+  return symbol;
+};
+
+// Variable names such as "v_{0}" or "\theta_1" as "v sub 0" or "theta sub 1"
+const nameToWords = (name: string): string =>
+  name
+    .replace(/[{}]/g, "")
+    .split("_")
+    .map((part) => symbolToWords(part.trim()))
+    .join(" sub ");
+
+// Digits are separate symbols in the tree, so adjacent numerals are joined
+const joinWords = (words: string[]): string =>
+  words
+    .filter((word) => word.trim() !== "")
+    .reduce<string[]>((joined, word) => {
+      const previous = joined[joined.length - 1];
+      if (previous !== undefined && isNumeral(previous) && isNumeral(word)) {
+        joined[joined.length - 1] = previous + word;
+      } else {
+        joined.push(word);
+      }
+      return joined;
+    }, [])
+    .join(" ")
+    .replace(/ ,/g, ",");
+
+const describeNodes = (nodes: AugmentedFormulaNode[]): string =>
+  joinWords(nodes.map(describeNode));
+
+const describePower = (exponent: string): string => {
+  if (exponent === "2") return "squared";
+  if (exponent === "3") return "cubed";
+  return `to the power of ${exponent}`;
+};
+
+const describeFraction = (numerator: string, denominator: string) => {
+  const top = Number(numerator);
+  const bottom = Number(denominator);
+  if (
+    Number.isInteger(top) &&
+    top > 0 &&
+    top < NUMBER_WORDS.length &&
+    DENOMINATOR_WORDS[bottom]
+  ) {
+    const [singular, plural] = DENOMINATOR_WORDS[bottom];
+    return `${NUMBER_WORDS[top]} ${top === 1 ? singular : plural}`;
+  }
+  return `the fraction ${numerator} over ${denominator}`;
+};
+
+const describeNode = (node: AugmentedFormulaNode): string => {
+  switch (node.type) {
+    case "symbol":
+      return symbolToWords(node.value);
+    case "variable":
+      return nameToWords(node.originalSymbol);
+    case "script": {
+      const base = describeNode(node.base);
+      const sub = node.sub ? ` sub ${describeNode(node.sub)}` : "";
+      const sup = node.sup ? ` ${describePower(describeNode(node.sup))}` : "";
+      return `${base}${sub}${sup}`;
+    }
+    case "frac":
+      return describeFraction(
+        describeNode(node.numerator),
+        describeNode(node.denominator)
+      );
+    case "root": {
+      const body = describeNode(node.body);
+      if (!node.index) return `the square root of ${body}`;
+      const index = describeNode(node.index);
+      return index === "3"
+        ? `the cube root of ${body}`
+        : `the root ${index} of ${body}`;
+    }
+    case "op":
+      return symbolToWords(node.operator);
+    case "color":
+    case "group":
+    case "text":
+    case "delimited":
+      return describeNodes(node.body);
+    case "box":
+    case "strikethrough":
+      return describeNode(node.body);
+    case "brace":
+      return describeNode(node.base);
+    case "space":
+      return "";
+    case "array":
+      return node.body.map(describeNodes).join(", ");
+    case "matrix":
+      return `the matrix ${node.body
+        .map((row, index) => `row ${index + 1}: ${describeNodes(row)}`)
+        .join(", ")}`;
+  }
+};
+
+/**
+ * Describe a formula tree in words
+ */
+export const describeFormula = (formula: AugmentedFormula): string =>
+  describeNodes(formula.children);
+
+/**
+ * Derive the tree of a formula's LaTeX with the variables of the computation
+ * store grouped, so that they are read as single names
+ * @returns The tree, or null if the LaTeX could not be parsed
+ */
+export const deriveFormulaTree = (
+  latex: string,
+  store: ComputationStore = computationStore
+): AugmentedFormula | null => {
+  try {
+    const variablePatterns = Array.from(store.variables.keys());
+    return deriveTreeWithVars(
+      latex,
+      parseVariableStrings(variablePatterns),
+      variablePatterns
+    );
+  } catch (error) {
+    console.warn("Failed to derive formula tree:", error);
+    return null;
+  }
+};
+
+/**
+ * Names of the variables in a formula tree, in order of appearance
+ */
+export const getFormulaVariables = (formula: AugmentedFormula): string[] => {
+  const names: string[] = [];
+  const collect = (node: AugmentedFormulaNode) => {
+    if (node.type === "variable" && !names.includes(node.originalSymbol)) {
+      names.push(node.originalSymbol);
+    }
+    node.children.forEach(collect);
+  };
+  formula.children.forEach(collect);
+  return names;
+};
+
+/**
+ * Read units in words, e.g. "m/s²" as "meters per second squared" and
+ * "kg·m^2" as "kilogram meters squared"
+ */
+export const describeUnits = (units: string): string => {
+  const [numerator, ...denominators] = normalizeUnits(units)
+    .replace(/[()]/g, " ")
+    .split("/");
+  // Units after "per" and before the last unit of the numerator are singular
+  const describePart = (part: string, pluralLast: boolean) => {
+    const parts = part.split(/\s*\*\s*|\s+/).filter(Boolean);
+    return parts
+      .map((unit, index) => {
+        const [symbol, exponent] = unit.split("^");
+        const [singular, plural] = UNIT_WORDS[symbol] ?? [symbol, symbol];
+        const word =
+          pluralLast && index === parts.length - 1 ? plural : singular;
+        return exponent ? `${word} ${describePower(exponent)}` : word;
+      })
+      .join(" ");
+  };
+  return [
+    describePart(numerator, true),
+    ...denominators.map((part) => describePart(part, false)),
+  ]
+    .filter(Boolean)
+    .join(" per ");
+};
+
+const describeValue = (value: VariableValue, precision: number): string => {
+  if (isScalarValue(value)) return String(Number(value.toFixed(precision)));
+  return `(${value
+    .map((item) =>
+      Array.isArray(item)
+        ? `(${item.map((cell) => Number(cell.toFixed(precision))).join(", ")})`
+        : Number(item.toFixed(precision))
+    )
+    .join(", ")})`;
+};
+
+/**
+ * Describe the current values of variables, e.g. "K is 12.5 joules"
+ * @param variableNames - Variables to describe, in order
+ * @param store - The computation store to read from (defaults to the global store)
+ */
+export const describeVariableValues = (
+  variableNames: string[],
+  store: ComputationStore = computationStore
+): string =>
+  variableNames
+    .flatMap((name) => {
+      const variable = store.variables.get(name);
+      if (!variable || variable.value === undefined) return [];
+      const value = describeValue(
+        toDisplayValue(variable, variable.value),
+        variable.precision ?? 2
+      );
+      const units = getDisplayUnits(variable);
+      const label = nameToWords(name);
+      return [`${label} is ${value}${units ? ` ${describeUnits(units)}` : ""}`];
+    })
+    .join(", ");
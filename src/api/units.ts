@@ -0,0 +1,429 @@
+/**
+ * Units and Dimensional Analysis for Formulize
+ *
+ * Parses the `units` of variables into dimensions using the math.js unit
+ * system, checks that every formula expression is dimensionally consistent,
+ * and converts values between computation units and display units.
+ */
+import * as math from "mathjs";
+
+import { IEnvironment } from "../types/environment";
+import { IFormula } from "../types/formula";
+import { IVariable, VariableValue } from "../types/variable";
+import { splitEquation } from "./dependencyGraph";
+
+// Exponent of each of math.Unit.BASE_DIMENSIONS
+export type Dimension = number[];
+
+// SI symbols used when describing a dimension in error messages
+const BASE_DIMENSION_SYMBOLS: Record<string, string> = {
+  MASS: "kg",
+  LENGTH: "m",
+  TIME: "s",
+  CURRENT: "A",
+  TEMPERATURE: "K",
+  LUMINOUS_INTENSITY: "cd",
+  AMOUNT_OF_SUBSTANCE: "mol",
+  ANGLE: "rad",
+  BIT: "b",
+};
+
+const SUPERSCRIPTS: Record<string, string> = {
+  "⁰": "0",
+  "¹": "1",
+  "²": "2",
+  "³": "3",
+  "⁴": "4",
+  "⁵": "5",
+  "⁶": "6",
+  "⁷": "7",
+  "⁸": "8",
+  "⁹": "9",
+  "⁻": "-",
+};
+
+// Functions whose argument and result are dimensionless
+const DIMENSIONLESS_FUNCTIONS = [
+  "sin",
+  "cos",
+  "tan",
+  "asin",
+  "acos",
+  "atan",
+  "sinh",
+  "cosh",
+  "tanh",
+  "exp",
+  "log",
+  "log10",
+  "log2",
+];
+
+// Functions whose arguments must share a dimension, which is also the result
+const SAME_DIMENSION_FUNCTIONS = [
+  "abs",
+  "min",
+  "max",
+  "floor",
+  "ceil",
+  "round",
+];
+
+interface TermDimension {
+  dimension: Dimension | null; // null when a variable in the term has no units
+  constant: boolean; // Bare numbers are compatible with any dimension in sums
+}
+
+const DIMENSIONLESS: Dimension = math.Unit.BASE_DIMENSIONS.map(() => 0);
+
+/**
+ * Rewrites free-text units (m/s², kg·m) into math.js unit syntax (m/s^2, kg*m)
+ */
+export function normalizeUnits(units: string): string {
+  return units
+    .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁻]+/g, (match) => {
+      const exponent = Array.from(match)
+        .map((char) => SUPERSCRIPTS[char])
+        .join("");
+      return `^${exponent}`;
+    })
+    .replace(/[·⋅×]/g, "*")
+    .trim();
+}
+
+/**
+ * Parses a units string into a math.js unit
+ * @throws Error when the units are not recognized
+ */
+export function parseUnits(units: string): math.Unit {
+  try {
+    return math.unit(normalizeUnits(units));
+  } catch (error) {
+    throw new Error(
+      `Unknown units "${units}": ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Gets the dimension of a units string, treating angles as dimensionless
+ */
+export function getDimension(units: string): Dimension {
+  const angleIndex = math.Unit.BASE_DIMENSIONS.indexOf("ANGLE");
+  return parseUnits(units).dimensions.map((exponent, index) =>
+    index === angleIndex ? 0 : exponent
+  );
+}
+
+/**
+ * Describes a dimension in SI base units, e.g. kg·m^2·s^-2
+ */
+export function formatDimension(dimension: Dimension): string {
+  const parts = dimension
+    .map((exponent, index) => {
+      if (exponent === 0) return null;
+      const symbol =
+        BASE_DIMENSION_SYMBOLS[math.Unit.BASE_DIMENSIONS[index]] ??
+        math.Unit.BASE_DIMENSIONS[index];
+      return exponent === 1 ? symbol : `${symbol}^${exponent}`;
+    })
+    .filter((part): part is string => part !== null);
+  return parts.length > 0 ? parts.join("·") : "dimensionless";
+}
+
+function isSameDimension(a: Dimension, b: Dimension): boolean {
+  return a.every((exponent, index) => Math.abs(exponent - b[index]) < 1e-9);
+}
+
+/**
+ * Checks that a formula expression is dimensionally consistent
+ * @throws Error naming the formula and the offending term
+ */
+export function checkFormulaUnits(
+  formula: IFormula,
+  variables: Record<string, IVariable>
+): void {
+  if (!formula.expression) return;
+
+  // Replace {variable} references with math.js compatible placeholders
+  const placeholders: Record<string, string> = {};
+  const expression = formula.expression.replace(
+    /\{([^}]+)\}/g,
+    (_match, name: string) => {
+      const placeholder = `__var${Object.keys(placeholders).length}`;
+      placeholders[placeholder] = name;
+      return placeholder;
+    }
+  );
+  const describe = (node: math.MathNode) =>
+    node
+      .toString()
+      .replace(/__var\d+/g, (placeholder) => `{${placeholders[placeholder]}}`);
+
+  const mismatch = (
+    node: math.MathNode,
+    dimension: Dimension,
+    other: math.MathNode,
+    otherDimension: Dimension
+  ) =>
+    new Error(
+      `Unit mismatch in formula "${formula.name}": term "${describe(node)}" has units ${formatDimension(dimension)} but "${describe(other)}" has units ${formatDimension(otherDimension)}`
+    );
+
+  // Combines terms that are added, subtracted or equated
+  const combine = (
+    nodes: math.MathNode[],
+    terms: TermDimension[]
+  ): TermDimension => {
+    let known: { node: math.MathNode; dimension: Dimension } | null = null;
+    for (let i = 0; i < terms.length; i++) {
+      const { dimension, constant } = terms[i];
+      if (!dimension || constant) continue;
+      if (known && !isSameDimension(known.dimension, dimension)) {
+        throw mismatch(nodes[i], dimension, known.node, known.dimension);
+      }
+      known = known ?? { node: nodes[i], dimension };
+    }
+    if (known) return { dimension: known.dimension, constant: false };
+    return {
+      dimension: terms.some((term) => term.dimension === null)
+        ? null
+        : DIMENSIONLESS,
+      constant: terms.every((term) => term.constant),
+    };
+  };
+
+  const requireDimensionless = (
+    node: math.MathNode,
+    term: TermDimension,
+    context: string
+  ) => {
+    if (term.dimension && !isSameDimension(term.dimension, DIMENSIONLESS)) {
+      throw new Error(
+        `Unit mismatch in formula "${formula.name}": ${context} "${describe(node)}" must be dimensionless but has units ${formatDimension(term.dimension)}`
+      );
+    }
+  };
+
+  const analyze = (node: math.MathNode): TermDimension => {
+    switch (node.type) {
+      case "ConstantNode":
+        return { dimension: DIMENSIONLESS, constant: true };
+
+      case "SymbolNode": {
+        const name = (node as math.SymbolNode).name;
+        const variable = variables[placeholders[name] ?? name];
+        if (!variable) {
+          // Named constants such as pi and e
+          return { dimension: DIMENSIONLESS, constant: true };
+        }
+        return {
+          dimension: variable.units ? getDimension(variable.units) : null,
+          constant: false,
+        };
+      }
+
+      case "ParenthesisNode":
+        return analyze((node as math.ParenthesisNode).content);
+
+      case "ArrayNode": {
+        const items = (node as math.ArrayNode).items;
+        return combine(items, items.map(analyze));
+      }
+
+      case "OperatorNode": {
+        const { op, args } = node as math.OperatorNode;
+        const terms = args.map(analyze);
+        if (args.length === 1) return terms[0];
+
+        const [a, b] = terms;
+        const constant = a.constant && b.constant;
+        switch (op) {
+          case "+":
+          case "-":
+            return combine(args, terms);
+          case "*":
+          case "/": {
+            if (!a.dimension || !b.dimension) {
+              return { dimension: null, constant };
+            }
+            const sign = op === "*" ? 1 : -1;
+            return {
+              dimension: a.dimension.map(
+                (exponent, index) => exponent + sign * b.dimension![index]
+              ),
+              constant,
+            };
+          }
+          case "^": {
+            requireDimensionless(args[1], b, "exponent");
+            if (!a.dimension || isSameDimension(a.dimension, DIMENSIONLESS)) {
+              return { dimension: a.dimension, constant };
+            }
+            let exponent: unknown;
+            try {
+              exponent = args[1].compile().evaluate({});
+            } catch {
+              exponent = undefined;
+            }
+            if (typeof exponent !== "number") {
+              throw new Error(
+                `Unit mismatch in formula "${formula.name}": "${describe(node)}" raises a quantity with units ${formatDimension(a.dimension)} to a non-constant power`
+              );
+            }
+            const power = exponent;
+            return {
+              dimension: a.dimension.map((value) => value * power),
+              constant,
+            };
+          }
+          default:
+            return { dimension: null, constant };
+        }
+      }
+
+      case "FunctionNode": {
+        const { fn, args } = node as math.FunctionNode;
+        const terms = args.map(analyze);
+        const constant = terms.every((term) => term.constant);
+        if (fn.name === "sqrt" || fn.name === "cbrt") {
+          const root = fn.name === "sqrt" ? 2 : 3;
+          const dimension = terms[0]?.dimension;
+          return {
+            dimension: dimension
+              ? dimension.map((value) => value / root)
+              : null,
+            constant,
+          };
+        }
+        if (DIMENSIONLESS_FUNCTIONS.includes(fn.name)) {
+          args.forEach((arg, index) =>
+            requireDimensionless(arg, terms[index], `argument of ${fn.name}`)
+          );
+          return { dimension: DIMENSIONLESS, constant };
+        }
+        if (SAME_DIMENSION_FUNCTIONS.includes(fn.name)) {
+          return combine(args, terms);
+        }
+        return { dimension: null, constant };
+      }
+
+      default:
+        return { dimension: null, constant: false };
+    }
+  };
+
+  const sides = splitEquation(expression);
+  const nodes = (sides ?? [expression]).map((side) => math.parse(side));
+  combine(nodes, nodes.map(analyze));
+}
+
+/**
+ * Checks the units of every variable and formula in an environment
+ * @throws Error describing the first unknown unit or dimensional mismatch
+ */
+export function checkEnvironmentUnits(environment: IEnvironment): void {
+  for (const [name, variable] of Object.entries(environment.variables)) {
+    for (const units of [variable.units, variable.displayUnits]) {
+      if (!units) continue;
+      try {
+        parseUnits(units);
+      } catch (error) {
+        throw new Error(
+          `Variable "${name}": ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+    if (variable.displayUnits && !variable.units) {
+      throw new Error(
+        `Variable "${name}" has displayUnits "${variable.displayUnits}" but no units`
+      );
+    }
+    if (
+      variable.displayUnits &&
+      variable.units &&
+      !isSameDimension(
+        getDimension(variable.units),
+        getDimension(variable.displayUnits)
+      )
+    ) {
+      throw new Error(
+        `Variable "${name}" cannot be displayed in "${variable.displayUnits}", which is not compatible with "${variable.units}"`
+      );
+    }
+  }
+
+  for (const formula of environment.formulas) {
+    try {
+      checkFormulaUnits(formula, environment.variables);
+    } catch (error) {
+      // Expressions math.js cannot parse are reported by the engines instead
+      if (error instanceof Error && error.message.startsWith("Unit mismatch")) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Converts a value between two compatible units
+ */
+export function convertUnits(value: number, from: string, to: string): number {
+  return math.unit(value, normalizeUnits(from)).toNumber(normalizeUnits(to));
+}
+
+/**
+ * Gets the units a variable is displayed in
+ */
+export function getDisplayUnits(variable: IVariable): string | undefined {
+  return variable.displayUnits ?? variable.units;
+}
+
+/**
+ * Converts a variable's value from its computation units to its display units,
+ * element-wise for vectors and matrices
+ */
+export function toDisplayValue(
+  variable: IVariable,
+  value: VariableValue
+): VariableValue {
+  const { units, displayUnits } = variable;
+  if (!units || !displayUnits) return value;
+  const convert = (item: number) => {
+    try {
+      return convertUnits(item, units, displayUnits);
+    } catch {
+      return item;
+    }
+  };
+  if (typeof value === "number") return convert(value);
+  return value.map((item) =>
+    Array.isArray(item) ? item.map(convert) : convert(item)
+  ) as VariableValue;
+}
+
+/**
+ * Converts a number in a variable's display units back to its computation
+ * units
+ */
+export function fromDisplayValue(variable: IVariable, value: number): number {
+  const { units, displayUnits } = variable;
+  if (!units || !displayUnits) return value;
+  try {
+    return convertUnits(value, displayUnits, units);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Renders units as LaTeX, e.g. m/s^2 -> \mathrm{m/s^{2}}
+ */
+export function unitsToLatex(units: string): string {
+  const latex = normalizeUnits(units)
+    .replace(/\^\(?(-?[\d.]+)\)?/g, "^{$1}")
+    .replace(/\s*\*\s*/g, "*")
+    .replace(/\s+/g, "\\,")
+    .replace(/\*/g, "\\cdot ");
+  return `\\mathrm{${latex}}`;
+}
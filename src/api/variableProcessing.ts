@@ -20,8 +20,11 @@ import {
   deriveTreeWithVars,
   parseVariableStrings,
 } from "../FormulaTree";
+import { VariableValue } from "../types/variable";
 import { getVariable } from "../util/computation-helpers";
-import { computationStore } from "./computation";
+import { formatValueLatex, isScalarValue } from "../util/variable-value";
+import { ComputationStore, computationStore } from "./computation";
+import { getDisplayUnits, toDisplayValue, unitsToLatex } from "./units";
 
 /**
  * Process an augmented formula tree to find Variable nodes and wrap their tokens
@@ -29,7 +32,8 @@ import { computationStore } from "./computation";
  */
 export const processVariablesInFormula = (
   formula: AugmentedFormula,
-  defaultPrecision: number = 2
+  defaultPrecision: number = 2,
+  store: ComputationStore = computationStore
 ): string => {
   const processNode = (node: AugmentedFormulaNode): string => {
     if (node.type === "variable") {
@@ -43,15 +47,18 @@ export const processVariablesInFormula = (
           : originalSymbol;
 
       // Get the value, type, and precision from the computation store
-      let value = 0;
+      let value: VariableValue = 0;
       let isInputVariable = false;
       let hasDropdownOptions = false;
       let variablePrecision = defaultPrecision;
       let showName = true; // Default to showing name for backward compatibility
+      let units: string | undefined;
 
-      for (const [symbol, variable] of computationStore.variables.entries()) {
+      for (const [symbol, variable] of store.variables.entries()) {
         if (symbol === originalSymbol) {
-          value = variable.value ?? 0;
+          // Show the value converted to the variable's display units
+          value = toDisplayValue(variable, variable.value ?? 0);
+          units = getDisplayUnits(variable);
           isInputVariable = variable.type === "input";
           // Check if variable has dropdown options (set or options property)
           hasDropdownOptions = !!(variable.set || variable.options);
@@ -68,17 +75,24 @@ export const processVariablesInFormula = (
 
       // Use different CSS classes based on variable type and interaction mode
       let cssClass = "interactive-var-dependent";
-      if (isInputVariable) {
+      // Vectors and matrices are edited through visualizations, not by dragging
+      if (isInputVariable && isScalarValue(value)) {
         cssClass = hasDropdownOptions
           ? "interactive-var-dropdown"
           : "interactive-var-slidable";
       }
 
+      // Render the units next to the value when the variable has any
+      const formattedValue = formatValueLatex(value, variablePrecision);
+      const displayValue = units
+        ? `${formattedValue}\\,${unitsToLatex(units)}`
+        : formattedValue;
+
       // Wrap the token with CSS classes using the variable's specific precision
       // Conditionally show the variable name based on showName property
       const result = showName
-        ? `\\cssId{${id}}{\\class{${cssClass}}{${token}: ${value.toFixed(variablePrecision)}}}`
-        : `\\cssId{${id}}{\\class{${cssClass}}{${value.toFixed(variablePrecision)}}}`;
+        ? `\\cssId{${id}}{\\class{${cssClass}}{${token}: ${displayValue}}}`
+        : `\\cssId{${id}}{\\class{${cssClass}}{${displayValue}}}`;
       return result;
     }
 
@@ -234,9 +248,10 @@ export const collectVariableNodes = (formula: AugmentedFormula): Variable[] => {
  */
 export const getInputVariableState = (
   varId: string,
-  variableRanges: Record<string, [number, number]> = {}
+  variableRanges: Record<string, [number, number]> = {},
+  store: ComputationStore = computationStore
 ): { stepSize: number; minValue: number; maxValue: number } | null => {
-  const variable = getVariable(varId);
+  const variable = getVariable(varId, store);
   if (!variable) {
     return null;
   }
@@ -259,7 +274,8 @@ export const getInputVariableState = (
  * Find a variable by matching the element's CSS ID to variables in the computation store
  */
 export const findVariableByElement = (
-  element: HTMLElement
+  element: HTMLElement,
+  store: ComputationStore = computationStore
 ): { varId: string; symbol: string } | null => {
   const cssId = element.id;
   if (!cssId) {
@@ -267,7 +283,7 @@ export const findVariableByElement = (
   }
   // The CSS ID should be the original variable symbol
   // Find the corresponding variable in the computation store
-  for (const [varId] of computationStore.variables.entries()) {
+  for (const [varId] of store.variables.entries()) {
     if (varId === cssId) {
       return { varId, symbol: varId };
     }
@@ -281,11 +297,12 @@ export const findVariableByElement = (
  */
 export const processLatexContent = (
   latex: string,
-  defaultPrecision: number = 2
+  defaultPrecision: number = 2,
+  store: ComputationStore = computationStore
 ): string => {
   try {
     // Get variable patterns from computation store
-    const variablePatterns = Array.from(computationStore.variables.keys());
+    const variablePatterns = Array.from(store.variables.keys());
 
     // Parse variable patterns into trees for grouping
     const variableTrees = parseVariableStrings(variablePatterns);
@@ -293,7 +310,7 @@ export const processLatexContent = (
     // Create formula tree with variables grouped, passing original symbols
     const formula = deriveTreeWithVars(latex, variableTrees, variablePatterns);
 
-    return processVariablesInFormula(formula, defaultPrecision);
+    return processVariablesInFormula(formula, defaultPrecision, store);
   } catch (error) {
     console.warn("Failed to process latex content:", error);
     return latex; // Return original latex if processing fails
@@ -2,8 +2,7 @@ import { useCallback, useEffect, useMemo, useRef } from "react";
 
 import { observer } from "mobx-react-lite";
 
-import { computationStore } from "../../api/computation";
-import { executionStore as ctx } from "../../api/execution";
+import { useFormulizeStores } from "../../store/FormulizeStores";
 import { IArrayControl } from "../../types/control";
 import { getVariable } from "../../util/computation-helpers";
 
@@ -41,6 +40,8 @@ const LatexLabel = ({ latex }: { latex: string }) => {
 };
 
 const Array = observer(({ control }: ArrayProps) => {
+  const { computationStore, executionStore: ctx } = useFormulizeStores();
+
   // Get the variable ID from the control's variable property
   const getVariableId = useCallback(() => {
     if (control.variable) {
@@ -51,8 +52,8 @@ const Array = observer(({ control }: ArrayProps) => {
 
   const variableId = getVariableId();
   const variable = useMemo(
-    () => (variableId ? getVariable(variableId) : null),
-    [variableId]
+    () => (variableId ? getVariable(variableId, computationStore) : null),
+    [variableId, computationStore]
   );
 
   // Get array values from the variable's set property or from memberOf parent
@@ -80,7 +81,7 @@ const Array = observer(({ control }: ArrayProps) => {
       }
     }
     return [];
-  }, [variable]);
+  }, [variable, variableId, computationStore]);
 
   const arrayValues = getArrayValues();
 
@@ -113,7 +114,7 @@ const Array = observer(({ control }: ArrayProps) => {
         }
       }
     },
-    [variableId]
+    [variableId, computationStore]
   );
 
   // Get active index directly for MobX reactivity
@@ -0,0 +1,57 @@
+import { observer } from "mobx-react-lite";
+
+import { useFormulizeStores } from "../../store/FormulizeStores";
+import { IButtonControl } from "../../types/control";
+import {
+  getAllVariables,
+  randomizeVariables,
+  resetVariables,
+  updateVariables,
+} from "../../util/computation-helpers";
+
+interface ButtonProps {
+  control: IButtonControl;
+}
+
+const actionLabels = {
+  reset: "Reset",
+  randomize: "Randomize",
+};
+
+const Button = observer(({ control }: ButtonProps) => {
+  const { computationStore } = useFormulizeStores();
+  const targets = control.variable ? [control.variable] : undefined;
+
+  // The action and the onClick updates are one evaluation and one undo step,
+  // and a failing onClick rolls back the whole click
+  const handleClick = () => {
+    try {
+      computationStore.transaction(() => {
+        if (control.action === "reset") {
+          resetVariables(targets, computationStore);
+        } else if (control.action === "randomize") {
+          randomizeVariables(targets, computationStore);
+        }
+        if (!control.onClick) return;
+        const updates = control.onClick(getAllVariables(computationStore));
+        updateVariables(updates ?? {}, computationStore);
+      });
+    } catch (error) {
+      computationStore.setEvaluationError(
+        `Button "${control.label ?? control.id ?? "button"}": ${error instanceof Error ? error.message : error}`
+      );
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      className="button-control px-4 py-2 bg-white hover:bg-slate-50 active:bg-slate-100 border border-slate-200 rounded-2xl text-base focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
+    >
+      {control.label ?? (control.action ? actionLabels[control.action] : "Run")}
+    </button>
+  );
+});
+
+export default Button;
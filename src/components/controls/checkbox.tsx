@@ -0,0 +1,50 @@
+import React, { useMemo, useState } from "react";
+
+import { observer } from "mobx-react-lite";
+
+import { useFormulizeStores } from "../../store/FormulizeStores";
+import { ICheckboxControl } from "../../types/control";
+import { getVariable } from "../../util/computation-helpers";
+import { toScalar } from "../../util/variable-value";
+
+interface CheckboxProps {
+  control: ICheckboxControl;
+}
+
+const Checkbox = observer(({ control }: CheckboxProps) => {
+  const { computationStore } = useFormulizeStores();
+  const variableId = control.variable ?? null;
+  const variable = useMemo(
+    () => (variableId ? getVariable(variableId, computationStore) : null),
+    [variableId, computationStore]
+  );
+
+  // Without a variable the state is local to the control
+  const [localChecked, setLocalChecked] = useState(control.checked ?? false);
+  const checked = variable ? toScalar(variable.value) !== 0 : localChecked;
+
+  // The variable is 1 when checked and 0 otherwise
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    if (variableId) {
+      computationStore.setValue(variableId, event.target.checked ? 1 : 0);
+    } else {
+      setLocalChecked(event.target.checked);
+    }
+  };
+
+  return (
+    <label className="checkbox-control flex items-center gap-2 p-4 bg-white border border-slate-200 rounded-2xl cursor-pointer">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={handleChange}
+        className="h-4 w-4 accent-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
+      />
+      <span className="text-base">
+        {control.label ?? variable?.label ?? variableId}
+      </span>
+    </label>
+  );
+});
+
+export default Checkbox;
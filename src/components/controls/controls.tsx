@@ -1,8 +1,20 @@
 import { observer } from "mobx-react-lite";
 
-import { IControls, ISliderControl, IArrayControl } from "../../types/control";
+import {
+  IArrayControl,
+  IButtonControl,
+  ICheckboxControl,
+  IControls,
+  IDropdownControl,
+  IRadioControl,
+  ISliderControl,
+} from "../../types/control";
 import Slider from "./slider";
 import Array from "./array";
+import Button from "./button";
+import Checkbox from "./checkbox";
+import Dropdown from "./dropdown";
+import Radio from "./radio";
 
 interface ControlPanelProps {
   controls: IControls[];
@@ -24,20 +36,16 @@ const ControlPanel = observer(({ controls }: ControlPanelProps) => {
         return <Array key={key} control={control as IArrayControl} />;
 
       case "dropdown":
-        // TODO: Implement
-        return null;
+        return <Dropdown key={key} control={control as IDropdownControl} />;
 
       case "checkbox":
-        // TODO: Implement
-        return null;
+        return <Checkbox key={key} control={control as ICheckboxControl} />;
 
       case "button":
-        // TODO: Implement
-        return null;
+        return <Button key={key} control={control as IButtonControl} />;
 
       case "radio":
-        // TODO: Implement
-        return null;
+        return <Radio key={key} control={control as IRadioControl} />;
     }
   };
 
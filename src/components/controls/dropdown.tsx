@@ -0,0 +1,51 @@
+import { useMemo } from "react";
+
+import { observer } from "mobx-react-lite";
+
+import { useFormulizeStores } from "../../store/FormulizeStores";
+import { IDropdownControl } from "../../types/control";
+import { getOptionValue, getVariable } from "../../util/computation-helpers";
+import { toScalar } from "../../util/variable-value";
+import Select from "../select";
+
+interface DropdownProps {
+  control: IDropdownControl;
+}
+
+const Dropdown = observer(({ control }: DropdownProps) => {
+  const { computationStore } = useFormulizeStores();
+  const variableId = control.variable ?? null;
+  const variable = useMemo(
+    () => (variableId ? getVariable(variableId, computationStore) : null),
+    [variableId, computationStore]
+  );
+
+  const options = control.options.map((option, index) => ({
+    value: getOptionValue(option, index),
+    label: option.label,
+  }));
+
+  const handleChange = (value: string | number) => {
+    if (variableId) {
+      computationStore.setValue(variableId, Number(value));
+    }
+  };
+
+  return (
+    <div className="dropdown-control flex items-center gap-2 p-4 bg-white border border-slate-200 rounded-2xl">
+      {variable?.label && (
+        <label className="text-base text-center mr-2">{variable.label}</label>
+      )}
+      <div className="min-w-40">
+        <Select
+          value={toScalar(variable?.value, NaN)}
+          onChange={handleChange}
+          options={options}
+          placeholder={control.placeholder}
+        />
+      </div>
+    </div>
+  );
+});
+
+export default Dropdown;
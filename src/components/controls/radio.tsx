@@ -0,0 +1,73 @@
+import { useMemo, useState } from "react";
+
+import { observer } from "mobx-react-lite";
+
+import { useFormulizeStores } from "../../store/FormulizeStores";
+import { IRadioControl } from "../../types/control";
+import { getOptionValue, getVariable } from "../../util/computation-helpers";
+import { toScalar } from "../../util/variable-value";
+
+interface RadioProps {
+  control: IRadioControl;
+}
+
+const Radio = observer(({ control }: RadioProps) => {
+  const { computationStore } = useFormulizeStores();
+  const variableId = control.variable ?? null;
+  const variable = useMemo(
+    () => (variableId ? getVariable(variableId, computationStore) : null),
+    [variableId, computationStore]
+  );
+
+  const options = control.options.map((option, index) => ({
+    value: getOptionValue(option, index),
+    label: option.label,
+  }));
+
+  // Without a variable the selection is local to the control
+  const [localValue, setLocalValue] = useState(() => {
+    const index = control.options.findIndex(
+      (option) => option.value === control.selectedValue
+    );
+    return index >= 0 ? options[index].value : NaN;
+  });
+  const selectedValue = variable ? toScalar(variable.value, NaN) : localValue;
+
+  const handleChange = (value: number) => {
+    if (variableId) {
+      computationStore.setValue(variableId, value);
+    } else {
+      setLocalValue(value);
+    }
+  };
+
+  const groupName = `radio-${control.id ?? variableId ?? "control"}`;
+
+  return (
+    <div
+      role="radiogroup"
+      aria-label={variable?.label ?? variableId ?? undefined}
+      className="radio-control flex flex-col gap-2 p-4 bg-white border border-slate-200 rounded-2xl"
+    >
+      {variable?.label && <div className="text-base">{variable.label}</div>}
+      {options.map((option) => (
+        <label
+          key={option.value}
+          className="flex items-center gap-2 text-sm cursor-pointer"
+        >
+          <input
+            type="radio"
+            name={groupName}
+            value={option.value}
+            checked={option.value === selectedValue}
+            onChange={() => handleChange(option.value)}
+            className="accent-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
+          />
+          {option.label}
+        </label>
+      ))}
+    </div>
+  );
+});
+
+export default Radio;
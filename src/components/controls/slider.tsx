@@ -2,15 +2,18 @@ import React, { useCallback, useMemo } from "react";
 
 import { observer } from "mobx-react-lite";
 
-import { computationStore } from "../../api/computation";
+import { useFormulizeStores } from "../../store/FormulizeStores";
 import { ISliderControl } from "../../types/control";
 import { getVariable } from "../../util/computation-helpers";
+import { toScalar } from "../../util/variable-value";
 
 interface SliderProps {
   control: ISliderControl;
 }
 
 const Slider = observer(({ control }: SliderProps) => {
+  const { computationStore } = useFormulizeStores();
+
   // Get the variable ID from the control's variable property
   const getVariableId = useCallback(() => {
     if (control.variable) {
@@ -21,8 +24,8 @@ const Slider = observer(({ control }: SliderProps) => {
 
   const variableId = getVariableId();
   const variable = useMemo(
-    () => (variableId ? getVariable(variableId) : null),
-    [variableId]
+    () => (variableId ? getVariable(variableId, computationStore) : null),
+    [variableId, computationStore]
   );
 
   // Get min, max, step from variable definition
@@ -46,7 +49,7 @@ const Slider = observer(({ control }: SliderProps) => {
         computationStore.setValue(variableId, newValue);
       }
     },
-    [variableId]
+    [variableId, computationStore]
   );
 
   const formatValue = useCallback(
@@ -58,7 +61,7 @@ const Slider = observer(({ control }: SliderProps) => {
   );
 
   const isVertical = control.orientation === "vertical";
-  const currentValue = variable?.value ?? (min + max) / 2;
+  const currentValue = toScalar(variable?.value, (min + max) / 2);
 
   return (
     <div
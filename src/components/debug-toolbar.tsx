@@ -1,8 +1,11 @@
 import {
   Code,
   Footprints,
+  Link,
   ListTree,
+  Redo2,
   SquareFunction,
+  Undo2,
   Variable,
   Vault,
 } from "lucide-react";
@@ -16,6 +19,9 @@ interface FormulaToolbarProps {
   onShowVariableTreePane: () => void;
   onShowDebugModal: () => void;
   onOpenStoreModal: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  onCopyLink?: () => void;
 }
 
 const FormulaToolbar = ({
@@ -25,9 +31,28 @@ const FormulaToolbar = ({
   onShowVariableTreePane,
   onShowDebugModal,
   onOpenStoreModal,
+  onUndo,
+  onRedo,
+  onCopyLink,
 }: FormulaToolbarProps) => {
   return (
     <div className="absolute right-4 top-4 gap-3 flex flex-row z-20">
+      {onUndo && (
+        <IconButton
+          icon={Undo2}
+          alt="Undo"
+          onClick={onUndo}
+          title="Undo (Ctrl+Z)"
+        />
+      )}
+      {onRedo && (
+        <IconButton
+          icon={Redo2}
+          alt="Redo"
+          onClick={onRedo}
+          title="Redo (Ctrl+Shift+Z)"
+        />
+      )}
       <IconButton
         icon={Code}
         alt="Edit"
@@ -59,6 +84,14 @@ const FormulaToolbar = ({
         title="Debug Manual Functions"
       />
       <IconButton icon={Vault} alt="Store" onClick={onOpenStoreModal} />
+      {onCopyLink && (
+        <IconButton
+          icon={Link}
+          alt="Copy Link"
+          onClick={onCopyLink}
+          title="Copy Link"
+        />
+      )}
     </div>
   );
 };
@@ -1,6 +1,10 @@
 import { observer } from "mobx-react-lite";
 
 import { computationStore } from "../api/computation";
+import {
+  VerificationReport,
+  describeVerificationFailure,
+} from "../api/computation-engines/llm/function-verifier";
 
 interface EvaluationFunctionPaneProps {
   className?: string;
@@ -24,10 +28,44 @@ const engineDescriptions = {
   },
 };
 
+const verificationMethods: Record<VerificationReport["method"], string> = {
+  samples: "sample points",
+  symbolic: "symbolic algebra on random inputs",
+  none: "not checked",
+};
+
+const VerificationReportItem = ({ report }: { report: VerificationReport }) => {
+  const passedChecks = report.checks.filter((check) => check.passed).length;
+  const failures = report.passed ? "" : describeVerificationFailure(report);
+  return (
+    <li className="py-2">
+      <div className="flex items-center gap-2">
+        <span className={report.passed ? "text-green-600" : "text-red-600"}>
+          {report.passed ? "✓" : "✗"}
+        </span>
+        <span className="font-medium">{report.formulaName}</span>
+        <span className="text-gray-500">
+          {verificationMethods[report.method]}
+          {report.checks.length > 0 &&
+            ` · ${passedChecks}/${report.checks.length} checks passed`}
+          {report.attempts > 1 && ` · ${report.attempts} attempts`}
+        </span>
+      </div>
+      {report.message && <p className="mt-1 text-gray-600">{report.message}</p>}
+      {failures && (
+        <pre className="mt-1 p-2 bg-red-50 rounded font-mono text-xs text-red-700 whitespace-pre-wrap">
+          {failures}
+        </pre>
+      )}
+    </li>
+  );
+};
+
 const EvaluationFunctionPane = observer(
   ({ className = "" }: EvaluationFunctionPaneProps) => {
     const code = computationStore.lastGeneratedCode;
     const engineType = computationStore.computationEngine;
+    const reports = computationStore.verificationReports;
 
     const getDisplayCode = () => {
       // For both engine types, use the generated code from the computation store
@@ -45,9 +83,12 @@ const EvaluationFunctionPane = observer(
       }
     };
 
-    const currentEngine =
-      engineDescriptions[engineType as keyof typeof engineDescriptions] ||
-      engineDescriptions["llm"];
+    const currentEngine = engineDescriptions[
+      engineType as keyof typeof engineDescriptions
+    ] || {
+      title: engineType,
+      description: `The "${engineType}" engine was added with registerEngine().`,
+    };
 
     return (
       <div className={`overflow-hidden ${className}`}>
@@ -70,6 +111,19 @@ const EvaluationFunctionPane = observer(
               </div>
             )}
           </div>
+          {reports.length > 0 && (
+            <div className="mt-4 text-sm">
+              <div className="text-gray-700">Verification</div>
+              <ul className="divide-y">
+                {reports.map((report) => (
+                  <VerificationReportItem
+                    key={report.formulaName}
+                    report={report}
+                  />
+                ))}
+              </ul>
+            </div>
+          )}
           <div className="mt-4 p-3 bg-slate-50 rounded text-sm">
             <p className="text-gray-700">{currentEngine.description}</p>
           </div>
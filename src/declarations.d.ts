@@ -1 +1,2 @@
 declare module "prettier-plugin-latex/standalone";
+declare module "js-interpreter";
@@ -74,9 +74,16 @@ export const bayesWithCustomVisualization = `const config = {
       {
         type: "custom",
         id: "bayes-visualization",
-        title: "Interactive Probability Visualization",
-        width: 600,
-        height: 400,
+        variables: [
+          "P(A)",
+          "P(B)",
+          "P(A \\\\cap B)",
+          "P(B \\\\mid A)",
+          "P(A \\\\mid B)",
+          "P(A \\\\cap \\\\neg B)",
+          "P(B \\\\cap \\\\neg A)",
+          "P(\\\\neg A \\\\cap \\\\neg B)"
+        ],
         component: "BayesProbabilityChart",
         update: {
           onVariableChange: true
@@ -85,7 +85,6 @@ export const parameterizedPlane = `const config = {
       plotType: "surface",
       width: 600,
       height: 600,
-      showColorbar: true,
       showCurrentPointInLegend: true,
       surfaces: [
         {
@@ -95,17 +94,6 @@ export const parameterizedPlane = `const config = {
           showInLegend: true,
           showColorbar: false
         }
-      ],
-      points: [
-        {
-          name: "Current Point (x, y, z)",
-          x: "x",
-          y: "y", 
-          z: "z",
-          color: "red",
-          size: 8,
-          showInLegend: true
-        }
       ]
     },
   ]
@@ -68,7 +68,6 @@ export const parametric3D = `const config = {
       plotType: "surface",
       width: 600,
       height: 600,
-      showColorbar: true,
       showCurrentPointInLegend: true,
       surfaces: [
         {
@@ -3,7 +3,7 @@ export const rationalNumbers = `const config = {
     {
       name: "Rational Numbers Set",
       function: "Q = \\\\{\\\\frac{p}{q} \\\\mid p \\\\in Z \\\\text{ and } q \\\\in Z \\\\text{ and } q \\\\neq 0\\\\}",
-      expression: "{result} = {p} / {q}"
+      expression: "{Q} = {p} / {q}"
     }
   ],
   variables: {
@@ -24,8 +24,7 @@ export const rationalNumbers = `const config = {
       value: 2,
       range: [-20, 20],
       step: 1,
-      label: "Denominator (q ∈ Z, q ≠ 0)",
-      constraint: "q !== 0"
+      label: "Denominator (q ∈ Z, q ≠ 0)"
     }
   },
   computation: {
@@ -2,8 +2,8 @@ export const vectorAddition = `const config = {
   formulas: [
     {
       name: "Vector Addition",
-      function: "{k_1} \\\\begin{bmatrix} {ax} \\\\\\\\ {ay} \\\\end{bmatrix} + {k_2} \\\\begin{bmatrix} {bx} \\\\\\\\ {by} \\\\end{bmatrix} = \\\\begin{bmatrix} {cx} \\\\\\\\ {cy} \\\\end{bmatrix}",
-      expression: "[{cx}, {cy}] = {k_1} * [{ax}, {ay}] + {k_2} * [{bx}, {by}]"
+      function: "{k_1} {a} + {k_2} {b} = {c}",
+      expression: "{c} = {k_1} * {a} + {k_2} * {b}"
     }
   ],
   variables: {
@@ -21,45 +21,26 @@ export const vectorAddition = `const config = {
       step: 0.1,
       precision: 1
     },
-    ax: {
+    a: {
       type: "input",
-      value: 2,
-      range: [-10, 10],
-      step: 0.5,
+      dataType: "vector",
+      dimensions: [2],
+      value: [2, 2],
       precision: 1,
       showName: false
     },
-    ay: {
-      type: "input", 
-      value: 2,
-      range: [-10, 10],
-      step: 0.5,
-      precision: 1,
-      showName: false
-    },
-    bx: {
+    b: {
       type: "input",
-      value: -1,
-      range: [-10, 10], 
-      step: 0.5,
-      precision: 1,
-      showName: false
-    },
-    by: {
-      type: "input",
-      value: -1,
-      range: [-10, 10],
-      step: 0.5,
-      precision: 1,
-      showName: false
-    },
-    cx: {
-      type: "dependent",
+      dataType: "vector",
+      dimensions: [2],
+      value: [-1, -1],
       precision: 1,
       showName: false
     },
-    cy: {
+    c: {
       type: "dependent",
+      dataType: "vector",
+      dimensions: [2],
       precision: 1,
       showName: false
     },
@@ -81,8 +62,7 @@ export const vectorAddition = `const config = {
       vectors: [
         {
           shape: "arrow",
-          x: [0, "ax"],
-          y: [0, "ay"],
+          variable: "a",
           name: "Vector A",
           color: "blue",
           lineWidth: 2,
@@ -90,8 +70,7 @@ export const vectorAddition = `const config = {
         },
         {
           shape: "arrow",
-          x: [0, "bx"],
-          y: [0, "by"],
+          variable: "b",
           name: "Vector B",
           color: "green",
           lineWidth: 2,
@@ -99,8 +78,7 @@ export const vectorAddition = `const config = {
         },
         {
           shape: "point",
-          x: ["cx"],
-          y: ["cy"],
+          variable: "c",
           name: "Tip of Vector C",
           color: "red",
           markerSize: 5,
@@ -1,60 +1,192 @@
-import { computationStore } from "../api/computation";
+import { ComputationStore, computationStore } from "../api/computation";
+import { fromDisplayValue, toDisplayValue } from "../api/units";
 import {
   findVariableByElement,
   getInputVariableState,
 } from "../api/variableProcessing";
+import { VariableHistoryStore } from "../store/VariableHistoryStore";
+import { getVariable } from "../util/computation-helpers";
+import { toScalar } from "../util/variable-value";
+
+// Multiplier for steps taken with Shift or Page Up/Down
+const LARGE_STEP_FACTOR = 10;
+
+// Removes floating point noise such as 0.30000000000000004
+const roundValue = (value: number) => parseFloat(value.toPrecision(12));
 
 export const dragHandler = (
   container: HTMLElement,
-  variableRanges: Record<string, [number, number]> = {}
+  variableRanges: Record<string, [number, number]> = {},
+  store: ComputationStore = computationStore,
+  history?: VariableHistoryStore
 ) => {
   if (!container) return;
 
-  const slidableElements = container.querySelectorAll(
+  const slidableElements = container.querySelectorAll<HTMLElement>(
     ".interactive-var-slidable"
   );
 
   slidableElements.forEach((element) => {
-    let isDragging = false;
-    let startY = 0;
-
-    const variableMatch = findVariableByElement(element as HTMLElement);
+    const variableMatch = findVariableByElement(element, store);
     if (!variableMatch) {
       return;
     }
 
     const { varId } = variableMatch;
-    const variableState = getInputVariableState(varId, variableRanges);
+    const variableState = getInputVariableState(varId, variableRanges, store);
     if (!variableState) {
       return;
     }
 
     const { stepSize, minValue, maxValue } = variableState;
-    let startValue = (minValue + maxValue) / 2;
-
-    const handleMouseMove = async (e: MouseEvent) => {
-      if (!isDragging) return;
-      const deltaY = startY - e.clientY;
-      const newValue = startValue + deltaY * stepSize;
-      computationStore.setValue(
+    const variable = getVariable(varId, store);
+    const label = variable?.label ?? varId;
+    const getValue = () =>
+      toScalar(getVariable(varId, store)?.value, (minValue + maxValue) / 2);
+    const setValue = (value: number) => {
+      store.setValue(
         varId,
-        Math.max(minValue, Math.min(maxValue, newValue))
+        roundValue(Math.max(minValue, Math.min(maxValue, value)))
+      );
+    };
+    // The token shows the value in the variable's display units, the editor
+    // and screen readers use the same units
+    const toDisplay = (value: number) =>
+      roundValue(
+        variable ? toScalar(toDisplayValue(variable, value), value) : value
       );
+    const fromDisplay = (value: number) =>
+      variable ? fromDisplayValue(variable, value) : value;
+
+    // Expose the token as a focusable slider to keyboard and screen reader users
+    element.tabIndex = 0;
+    element.setAttribute("role", "slider");
+    element.setAttribute("aria-label", label);
+    element.setAttribute("aria-valuemin", String(toDisplay(minValue)));
+    element.setAttribute("aria-valuemax", String(toDisplay(maxValue)));
+    element.setAttribute("aria-valuenow", String(toDisplay(getValue())));
+    if (variable?.displayUnits) {
+      element.setAttribute(
+        "aria-valuetext",
+        `${toDisplay(getValue())} ${variable.displayUnits}`
+      );
+    }
+    element.setAttribute(
+      "aria-keyshortcuts",
+      "ArrowUp ArrowDown Shift+ArrowUp Shift+ArrowDown Home End Enter"
+    );
+
+    // Text field for typing an exact value, opened with Enter or a double click
+    const openValueEditor = () => {
+      const input = document.createElement("input");
+      input.type = "number";
+      input.className = "variable-value-input";
+      input.min = String(toDisplay(minValue));
+      input.max = String(toDisplay(maxValue));
+      input.step = String(
+        roundValue(toDisplay(minValue + stepSize) - toDisplay(minValue))
+      );
+      input.value = String(toDisplay(getValue()));
+      input.setAttribute("aria-label", `Value of ${label}`);
+
+      const rect = element.getBoundingClientRect();
+      const containerRect = container.getBoundingClientRect();
+      input.style.position = "absolute";
+      input.style.left = `${rect.left - containerRect.left}px`;
+      input.style.top = `${rect.bottom - containerRect.top + 4}px`;
+
+      let isOpen = true;
+      const close = () => {
+        if (!isOpen) return;
+        isOpen = false;
+        input.remove();
+        element.focus();
+      };
+
+      input.addEventListener("keydown", (e: KeyboardEvent) => {
+        e.stopPropagation();
+        if (e.key === "Enter") {
+          e.preventDefault();
+          const value = parseFloat(input.value);
+          // Close first so that focus returns to the token before it re-renders
+          close();
+          if (Number.isFinite(value)) {
+            setValue(fromDisplay(value));
+          }
+        } else if (e.key === "Escape") {
+          e.preventDefault();
+          close();
+        }
+      });
+      input.addEventListener("blur", close);
+
+      container.appendChild(input);
+      input.focus();
+      input.select();
+    };
+
+    element.addEventListener("keydown", (e: KeyboardEvent) => {
+      const step = e.shiftKey ? stepSize * LARGE_STEP_FACTOR : stepSize;
+      switch (e.key) {
+        case "ArrowUp":
+        case "ArrowRight":
+          setValue(getValue() + step);
+          break;
+        case "ArrowDown":
+        case "ArrowLeft":
+          setValue(getValue() - step);
+          break;
+        case "PageUp":
+          setValue(getValue() + stepSize * LARGE_STEP_FACTOR);
+          break;
+        case "PageDown":
+          setValue(getValue() - stepSize * LARGE_STEP_FACTOR);
+          break;
+        case "Home":
+          setValue(minValue);
+          break;
+        case "End":
+          setValue(maxValue);
+          break;
+        case "Enter":
+          openValueEditor();
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    });
+
+    element.addEventListener("dblclick", (e: MouseEvent) => {
+      e.preventDefault();
+      openValueEditor();
+    });
+
+    // Vertical drags with a mouse, pen or finger. The listeners are on the
+    // document because the token is re-rendered while its value changes.
+    let startY = 0;
+    let startValue = 0;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      setValue(startValue + (startY - e.clientY) * stepSize);
     };
 
-    const handleMouseUp = () => {
-      isDragging = false;
-      document.removeEventListener("mousemove", handleMouseMove);
-      document.removeEventListener("mouseup", handleMouseUp);
+    const handlePointerUp = () => {
+      history?.endGesture();
+      document.removeEventListener("pointermove", handlePointerMove);
+      document.removeEventListener("pointerup", handlePointerUp);
+      document.removeEventListener("pointercancel", handlePointerUp);
     };
 
-    element.addEventListener("mousedown", (e: Event) => {
-      if (!(e instanceof MouseEvent)) return;
-      isDragging = true;
+    element.addEventListener("pointerdown", (e: PointerEvent) => {
+      if (e.button !== 0) return;
       startY = e.clientY;
-      startValue = parseFloat(element.textContent || "0");
-      document.addEventListener("mousemove", handleMouseMove);
-      document.addEventListener("mouseup", handleMouseUp);
+      startValue = getValue();
+      // The whole drag is undone in one step
+      history?.beginGesture();
+      document.addEventListener("pointermove", handlePointerMove);
+      document.addEventListener("pointerup", handlePointerUp);
+      document.addEventListener("pointercancel", handlePointerUp);
       e.preventDefault();
     });
   });
@@ -1,8 +1,11 @@
-import { computationStore } from "../api/computation";
+import { ComputationStore, computationStore } from "../api/computation";
 import { findVariableByElement } from "../api/variableProcessing";
 import { getVariable } from "../util/computation-helpers";
 
-export const dropdownHandler = (container: HTMLElement) => {
+export const dropdownHandler = (
+  container: HTMLElement,
+  store: ComputationStore = computationStore
+) => {
   if (!container) return;
 
   const dropdownElements = container.querySelectorAll(
@@ -11,13 +14,13 @@ export const dropdownHandler = (container: HTMLElement) => {
 
   dropdownElements.forEach((element) => {
     // Find the variable using the improved matching function
-    const variableMatch = findVariableByElement(element as HTMLElement);
+    const variableMatch = findVariableByElement(element as HTMLElement, store);
     if (!variableMatch) {
       return;
     }
 
     const { varId } = variableMatch;
-    const variable = getVariable(varId);
+    const variable = getVariable(varId, store);
     if (!variable) {
       return;
     }
@@ -32,7 +35,7 @@ export const dropdownHandler = (container: HTMLElement) => {
       availableOptions = variable.options;
     } else if (variable.key) {
       // For variables with a key, show options from the key variable's set
-      const keyVar = getVariable(variable.key);
+      const keyVar = getVariable(variable.key, store);
       if (keyVar && keyVar.set) {
         availableOptions = keyVar.set;
         isKeyVariable = true;
@@ -43,34 +46,105 @@ export const dropdownHandler = (container: HTMLElement) => {
       return;
     }
 
+    const label = variable.label ?? varId;
     let activeDropdown: HTMLElement | null = null;
 
+    // Expose the token as a button that opens a listbox of the options
+    const htmlElement = element as HTMLElement;
+    htmlElement.tabIndex = 0;
+    htmlElement.setAttribute("role", "button");
+    htmlElement.setAttribute("aria-haspopup", "listbox");
+    htmlElement.setAttribute("aria-expanded", "false");
+    htmlElement.setAttribute("aria-label", label);
+
+    const selectOption = (option: string | number) => {
+      const numericValue =
+        typeof option === "number" ? option : parseFloat(String(option));
+      closeDropdown();
+      htmlElement.focus();
+
+      if (!isNaN(numericValue)) {
+        if (isKeyVariable && variable.key) {
+          // For variables with a key, update the key variable first
+          // This will automatically update the dependent variable via updateIndexBasedVariables
+          store.setValue(variable.key, numericValue);
+          // The dependent variable (this variable) will be updated automatically
+        } else {
+          // For regular set/options variables, update directly
+          store.setValue(varId, numericValue);
+        }
+      }
+    };
+
+    const getOptionElements = () =>
+      Array.from(
+        activeDropdown?.querySelectorAll<HTMLElement>(".dropdown-option") ?? []
+      );
+
+    const focusOption = (index: number) => {
+      const optionElements = getOptionElements();
+      if (optionElements.length === 0) return;
+      const wrapped = (index + optionElements.length) % optionElements.length;
+      optionElements[wrapped].focus();
+    };
+
     const createDropdownMenu = (options: (string | number)[]): HTMLElement => {
       const menu = document.createElement("div");
       menu.className = "dropdown-menu";
+      menu.setAttribute("role", "listbox");
+      menu.setAttribute("aria-label", label);
 
-      options.forEach((option) => {
+      const currentValue =
+        isKeyVariable && variable.key
+          ? getVariable(variable.key, store)?.value
+          : variable.value;
+
+      options.forEach((option, index) => {
         const optionElement = document.createElement("div");
         optionElement.className = "dropdown-option";
         optionElement.textContent = String(option);
+        optionElement.tabIndex = -1;
+        optionElement.setAttribute("role", "option");
+        optionElement.setAttribute(
+          "aria-selected",
+          String(String(option) === String(currentValue))
+        );
 
         optionElement.addEventListener("click", (e) => {
           e.stopPropagation();
-          const numericValue =
-            typeof option === "number" ? option : parseFloat(String(option));
-
-          if (!isNaN(numericValue)) {
-            if (isKeyVariable && variable.key) {
-              // For variables with a key, update the key variable first
-              // This will automatically update the dependent variable via updateIndexBasedVariables
-              computationStore.setValue(variable.key, numericValue);
-              // The dependent variable (this variable) will be updated automatically
-            } else {
-              // For regular set/options variables, update directly
-              computationStore.setValue(varId, numericValue);
-            }
+          selectOption(option);
+        });
+
+        optionElement.addEventListener("keydown", (e: KeyboardEvent) => {
+          switch (e.key) {
+            case "ArrowDown":
+              focusOption(index + 1);
+              break;
+            case "ArrowUp":
+              focusOption(index - 1);
+              break;
+            case "Home":
+              focusOption(0);
+              break;
+            case "End":
+              focusOption(options.length - 1);
+              break;
+            case "Enter":
+            case " ":
+              selectOption(option);
+              break;
+            case "Escape":
+              closeDropdown();
+              htmlElement.focus();
+              break;
+            case "Tab":
+              closeDropdown();
+              return;
+            default:
+              return;
           }
-          closeDropdown();
+          e.preventDefault();
+          e.stopPropagation();
         });
 
         menu.appendChild(optionElement);
@@ -83,6 +157,7 @@ export const dropdownHandler = (container: HTMLElement) => {
       if (activeDropdown) {
         activeDropdown.remove();
         activeDropdown = null;
+        htmlElement.setAttribute("aria-expanded", "false");
       }
     };
 
@@ -92,6 +167,7 @@ export const dropdownHandler = (container: HTMLElement) => {
 
       const menu = createDropdownMenu(availableOptions);
       activeDropdown = menu;
+      htmlElement.setAttribute("aria-expanded", "true");
 
       // Position the dropdown relative to the clicked element
       const rect = element.getBoundingClientRect();
@@ -125,5 +201,18 @@ export const dropdownHandler = (container: HTMLElement) => {
         openDropdown();
       }
     });
+
+    // Open with the keyboard and move focus to the selected option
+    element.addEventListener("keydown", (e: Event) => {
+      const { key } = e as KeyboardEvent;
+      if (key !== "Enter" && key !== " " && key !== "ArrowDown") return;
+      e.preventDefault();
+      openDropdown();
+      const optionElements = getOptionElements();
+      const selected = optionElements.findIndex(
+        (option) => option.getAttribute("aria-selected") === "true"
+      );
+      focusOption(Math.max(selected, 0));
+    });
   });
 };
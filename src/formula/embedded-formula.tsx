@@ -0,0 +1,34 @@
+import {
+  FormulizeStoreContext,
+  FormulizeStores,
+} from "../store/FormulizeStores";
+import { IEnvironment } from "../types/environment";
+import VisualizationRenderer from "../visualizations/VisualizationRenderer";
+import Formula from "./formula";
+
+interface EmbeddedFormulaProps {
+  environment: IEnvironment;
+  stores: FormulizeStores;
+}
+
+/**
+ * Renders a complete Formulize instance (formulas, controls and visualizations)
+ * into a host page container, bound to the instance's own stores
+ */
+const EmbeddedFormula = ({ environment, stores }: EmbeddedFormulaProps) => {
+  return (
+    <FormulizeStoreContext.Provider value={stores}>
+      <div className="formulize-embed flex flex-col gap-4 w-full">
+        <Formula controls={environment.controls} environment={environment} />
+        {environment.visualizations?.map((visualization, index) => (
+          <VisualizationRenderer
+            key={`viz-${index}`}
+            visualization={visualization}
+          />
+        ))}
+      </div>
+    </FormulizeStoreContext.Provider>
+  );
+};
+
+export default EmbeddedFormula;
@@ -1,17 +1,68 @@
 import { useEffect, useRef, useState } from "react";
 
-import { Formulize, FormulizeConfig } from "../api/index.ts";
+import { toJS } from "mobx";
+import { Observer } from "mobx-react-lite";
+
+import { Play, X } from "lucide-react";
+
+import { computationStore } from "../api/computation.ts";
+import {
+  Formulize,
+  FormulizeConfig,
+  loadFormulizeDocument,
+} from "../api/index.ts";
+import { runConfigScript } from "../api/sandbox.ts";
 import FormulaCodeEditor from "../components/api-code-editor.tsx";
+import Button from "../components/button.tsx";
 import FormulaToolbar from "../components/debug-toolbar.tsx";
 import DebugModal from "../components/interpreter.tsx";
 import Modal from "../components/modal.tsx";
 import StorePane from "../components/variable-overview.tsx";
+import { examples as formulaExamples } from "../examples";
 import { kineticEnergy } from "../examples/kineticEnergy";
 import { FormulaElementPane } from "../pages/api/FormulaElementPane.tsx";
+import {
+  handleHistoryShortcut,
+  variableHistoryStore,
+} from "../store/VariableHistoryStore.ts";
 import { IEnvironment } from "../types/environment.ts";
+import { VariableValue } from "../types/variable.ts";
+import { createShareLink, decodeShareState } from "../util/share-link.ts";
 import { VariableTreePane } from "./VariableTreePane.tsx";
 import Formula, { VariableRange } from "./formula.tsx";
 
+// Time without value changes before they are written to the URL hash
+const SHARE_LINK_UPDATE_DELAY = 300;
+
+/**
+ * Put a link to an example or code with the current input values in the URL
+ * hash
+ * @returns The link
+ */
+const writeShareLink = async (input: string): Promise<string> => {
+  const example = Object.keys(formulaExamples).find(
+    (key) => formulaExamples[key as keyof typeof formulaExamples] === input
+  );
+  const values = Object.fromEntries(
+    Array.from(computationStore.variables.entries())
+      .filter(([, v]) => v.type === "input" && v.value !== undefined)
+      .map(([name, v]) => [name, toJS(v.value) as VariableValue])
+  );
+  const link = await createShareLink({
+    example,
+    code: example ? undefined : input,
+    values,
+  });
+  window.history.replaceState(null, "", link);
+  return link;
+};
+
+const clearShareLink = () => {
+  if (!window.location.hash) return;
+  const { pathname, search } = window.location;
+  window.history.replaceState(null, "", pathname + search);
+};
+
 // Wrapper component to handle multiple variable trees
 const VariableTreesPane = ({ config }: { config: FormulizeConfig | null }) => {
   const variableNames = config?.variables ? Object.keys(config.variables) : [];
@@ -44,6 +95,11 @@ const VariableTreesPane = ({ config }: { config: FormulizeConfig | null }) => {
 interface FormulaCanvasProps {
   formulizeConfig?: FormulizeConfig;
   formulizeFormula?: IEnvironment;
+  // Code rendered instead of a shared link or the default example, e.g. the
+  // editor's formula exported to the API page
+  initialCode?: string;
+  // Called once initialCode is rendered, so that it isn't rendered again
+  onInitialCodeUsed?: () => void;
   autoRender?: boolean;
   onConfigChange?: (config: FormulizeConfig) => void;
   onOpenEvaluationModal?: () => void;
@@ -53,6 +109,8 @@ interface FormulaCanvasProps {
 const FormulaCanvas = ({
   formulizeConfig,
   formulizeFormula,
+  initialCode,
+  onInitialCodeUsed,
   autoRender = true,
   onConfigChange,
   onOpenEvaluationModal,
@@ -84,7 +142,13 @@ const FormulaCanvas = ({
   const [showVariableTreePane, setShowVariableTreePane] =
     useState<boolean>(false);
   const [showDebugModal, setShowDebugModal] = useState<boolean>(false);
+  const [sharedCode, setSharedCode] = useState<{
+    code: string;
+    values: Record<string, VariableValue>;
+  } | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  // Input that the URL hash describes, null when the hash is not a link
+  const sharedInputRef = useRef<string | null>(null);
 
   // Extract variable ranges from Formulize configuration
   // This function converts Formulize variable ranges to the format expected by BlockInteractivity
@@ -108,9 +172,59 @@ const FormulaCanvas = ({
   };
 
   useEffect(() => {
-    if (autoRender) {
-      renderFormula();
+    if (!autoRender) return;
+    if (initialCode) {
+      setFormulizeInput(initialCode);
+      renderFormula(initialCode);
+      onInitialCodeUsed?.();
+      return;
     }
+    // Restore the example or code and the input values of a shared link
+    decodeShareState(window.location.hash).then((shared) => {
+      if (!shared) {
+        renderFormula();
+        return;
+      }
+      if (shared.example && shared.example in formulaExamples) {
+        const input =
+          formulaExamples[shared.example as keyof typeof formulaExamples];
+        sharedInputRef.current = input;
+        setFormulizeInput(input);
+        renderFormula(input, shared.values);
+      } else if (shared.code) {
+        // Anyone can send a link, its code only runs once it is confirmed
+        setSharedCode({ code: shared.code, values: shared.values });
+      } else {
+        renderFormula();
+      }
+    });
+  }, []);
+
+  // Keep the values in the URL hash up to date while it is a link
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const removeListener = computationStore.addValueListener(() => {
+      const input = sharedInputRef.current;
+      if (input === null) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        writeShareLink(input).catch((e) =>
+          console.warn("Failed to update the shared link:", e)
+        );
+      }, SHARE_LINK_UPDATE_DELAY);
+    });
+    return () => {
+      clearTimeout(timer);
+      removeListener();
+    };
+  }, []);
+
+  // Undo and redo changes to the variable values from the keyboard
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) =>
+      handleHistoryShortcut(event, variableHistoryStore);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
   }, []);
 
   // Update the formula display when the config changes
@@ -124,78 +238,37 @@ const FormulaCanvas = ({
   const executeUserCode = async (
     jsCode: string
   ): Promise<FormulizeConfig | null> => {
-    try {
-      // Prepare a secure environment for executing the code
-      // In a real production environment, we would use a more secure approach
-      // like sandboxed iframes or a server-side evaluation
-      // Create a function that will wrap the code and return the config
-      const wrappedCode = `
-        // Mock the Formulize API calls so we can capture the config
-        let capturedConfig = null;
-        
-        const Formulize = {
-          create: async function(config) {
-            capturedConfig = config;
-            
-            // Return a mock instance
-            return {
-              formula: config,
-              getVariable: () => ({}),
-              setVariable: () => true,
-              update: async () => {},
-              destroy: () => {}
-            };
-          }
-        };
-        
-        // Add global context for variables the code might use
-        const console = window.console;
-        const Math = window.Math;
-        
-        // Execute the user's code
-        try {
-          ${jsCode}
-        } catch(e) {
-          console.error("Error in user code:", e);
-          throw e; // Re-throw to propagate error
-        }
-        
-        if (!capturedConfig) {
-          throw new Error("No configuration was captured. Make sure your code calls Formulize.create(config)");
-        }
-        
-        // Return the captured config
-        return capturedConfig;
-      `;
-
-      // Create a function from the wrapped code and execute it
-      const executeFunction = new Function(
-        "return (async function() { " + wrappedCode + " })()"
-      );
-      const result = await executeFunction();
+    // Input without a Formulize.create() call is a JSON/YAML document
+    if (!jsCode.includes("Formulize.create")) {
+      return loadFormulizeDocument(jsCode);
+    }
 
-      // Validate the config
-      if (
-        !result ||
-        !result.formulas ||
-        !result.variables ||
-        !result.computation
-      ) {
-        throw new Error(
-          "Invalid configuration returned. Configuration must include formulas, variables, and computation properties."
-        );
-      }
+    // Run the script in a sandboxed worker that captures the config passed
+    // to Formulize.create(); its functions run in the interpreter. Errors
+    // propagate to renderFormula, which shows them in the editor panel
+    const result = (await runConfigScript(jsCode)) as FormulizeConfig;
 
-      return result;
-    } catch (error) {
-      console.error("Error executing user code:", error);
-      throw error; // Re-throw to show error in UI
+    // Validate the config
+    if (
+      !result ||
+      !result.formulas ||
+      !result.variables ||
+      !result.computation
+    ) {
+      throw new Error(
+        "Invalid configuration returned. Configuration must include formulas, variables, and computation properties."
+      );
     }
+
+    return result;
   };
 
   // Execute the user-provided JavaScript code
   // Make sure we have a valid configuration
-  const renderFormula = async (inputOverride?: string) => {
+  const renderFormula = async (
+    inputOverride?: string,
+    values?: Record<string, VariableValue>
+  ) => {
     try {
       setError(null);
       const inputToUse = inputOverride ?? formulizeInput;
@@ -219,6 +292,14 @@ const FormulaCanvas = ({
         configToUse.variables = {};
       }
 
+      // Start from the values of a shared link
+      for (const [name, value] of Object.entries(values ?? {})) {
+        const variable = configToUse.variables[name];
+        if (variable && variable.type !== "dependent") {
+          variable.value = value;
+        }
+      }
+
       // Make sure we have a computation engine specified
       if (!configToUse.computation) {
         configToUse.computation = {
@@ -233,6 +314,12 @@ const FormulaCanvas = ({
       // • Notify parent of config change via callback if provided
       try {
         await Formulize.create(configToUse);
+        // The URL hash describes the input of a link, not another example or
+        // edited code
+        if (sharedInputRef.current !== inputToUse) {
+          sharedInputRef.current = null;
+          clearShareLink();
+        }
         window.__lastFormulizeConfig = configToUse;
         setCurrentConfig(configToUse);
         if (onConfigChange) {
@@ -248,6 +335,33 @@ const FormulaCanvas = ({
     }
   };
 
+  // Copy a link to the current example or code with the current input values
+  const handleCopyLink = async () => {
+    try {
+      const link = await writeShareLink(formulizeInput);
+      sharedInputRef.current = formulizeInput;
+      await navigator.clipboard.writeText(link);
+    } catch (e) {
+      setError(
+        `Failed to copy link: ${e instanceof Error ? e.message : String(e)}`
+      );
+    }
+  };
+
+  // Run the code of a shared link once it has been confirmed, otherwise
+  // show the default example
+  const handleSharedCode = (run: boolean) => {
+    if (!sharedCode) return;
+    setSharedCode(null);
+    if (run) {
+      sharedInputRef.current = sharedCode.code;
+      setFormulizeInput(sharedCode.code);
+      renderFormula(sharedCode.code, sharedCode.values);
+    } else {
+      renderFormula();
+    }
+  };
+
   const handleOpenStoreModal = () => {
     if (onOpenStoreModal) {
       onOpenStoreModal();
@@ -266,6 +380,9 @@ const FormulaCanvas = ({
           onShowVariableTreePane={() => setShowVariableTreePane(true)}
           onShowDebugModal={() => setShowDebugModal(true)}
           onOpenStoreModal={handleOpenStoreModal}
+          onUndo={() => variableHistoryStore.undo()}
+          onRedo={() => variableHistoryStore.redo()}
+          onCopyLink={handleCopyLink}
         />
         <div
           ref={containerRef}
@@ -288,12 +405,16 @@ const FormulaCanvas = ({
             isRendered ? "translate-y-full" : "translate-y-0"
           }`}
         >
-          <FormulaCodeEditor
-            formulizeInput={formulizeInput}
-            onInputChange={setFormulizeInput}
-            onRender={renderFormula}
-            error={error}
-          />
+          <Observer>
+            {() => (
+              <FormulaCodeEditor
+                formulizeInput={formulizeInput}
+                onInputChange={setFormulizeInput}
+                onRender={renderFormula}
+                error={error ?? computationStore.evaluationError}
+              />
+            )}
+          </Observer>
         </div>
       </div>
 
@@ -327,6 +448,36 @@ const FormulaCanvas = ({
         <StorePane className="h-full" />
       </Modal>
 
+      {/* Shared Code Modal */}
+      <Modal
+        isOpen={sharedCode !== null}
+        onClose={() => handleSharedCode(false)}
+        title="Run code from this link?"
+        maxWidth="max-w-2xl"
+      >
+        <div className="p-4 flex flex-col gap-4">
+          <p className="text-sm text-slate-600">
+            This link contains the code below. Only run it if you trust the
+            person who sent the link.
+          </p>
+          <pre className="text-xs bg-slate-50 border border-slate-200 rounded-lg p-3 overflow-auto max-h-[40vh] whitespace-pre-wrap">
+            {sharedCode?.code}
+          </pre>
+          <div className="flex justify-end gap-2">
+            <Button icon={X} onClick={() => handleSharedCode(false)}>
+              Cancel
+            </Button>
+            <Button
+              icon={Play}
+              variant="secondary"
+              onClick={() => handleSharedCode(true)}
+            >
+              Run
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
       {/* Debug Modal */}
       <DebugModal
         isOpen={showDebugModal}
@@ -1,12 +1,18 @@
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useId, useRef, useState } from "react";
 
 import { reaction } from "mobx";
 import { observer } from "mobx-react-lite";
 
-import { computationStore } from "../api/computation";
+import {
+  deriveFormulaTree,
+  describeFormula,
+  describeVariableValues,
+  getFormulaVariables,
+} from "../api/speech";
 import { processLatexContent } from "../api/variableProcessing";
 import ControlPanel from "../components/controls/controls";
 import { FormulaStore } from "../store/FormulaStoreManager";
+import { useFormulizeStores } from "../store/FormulizeStores";
 import { IControls } from "../types/control";
 import { IEnvironment } from "../types/environment";
 import { dragHandler } from "./dragHandler";
@@ -15,6 +21,25 @@ import { stepHandler } from "./stepHandler";
 
 export type VariableRange = [number, number];
 
+// Delay before changed values are announced, so drags aren't read step by step
+const ANNOUNCEMENT_DELAY = 500;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// Hide the MathJax markup, which screen readers read as noise, from assistive
+// technology, keeping the interactive variable tokens reachable
+const hideDecorativeMath = (element: Element) => {
+  for (const child of Array.from(element.children)) {
+    if (child.hasAttribute("tabindex")) continue;
+    if (child.querySelector("[tabindex]")) {
+      hideDecorativeMath(child);
+    } else {
+      child.setAttribute("aria-hidden", "true");
+    }
+  }
+};
+
 interface FormulaProps {
   variableRanges?: Record<string, VariableRange>;
   formulaIndex?: number;
@@ -31,8 +56,28 @@ const Formula = observer(
     controls,
     environment,
   }: FormulaProps = {}) => {
+    const { computationStore, historyStore } = useFormulizeStores();
     const containerRef = useRef<HTMLDivElement>(null);
     const [isInitialized, setIsInitialized] = useState(false);
+    const descriptionId = useId();
+
+    // Values of the dependent variables, announced through a live region
+    const liveRegionRef = useRef<HTMLDivElement>(null);
+    const lastValuesRef = useRef<string | null>(null);
+    const announcementTimerRef = useRef<number>();
+    useEffect(() => () => clearTimeout(announcementTimerRef.current), []);
+
+    const announceValues = useCallback((values: string) => {
+      if (lastValuesRef.current !== null && values !== lastValuesRef.current) {
+        clearTimeout(announcementTimerRef.current);
+        announcementTimerRef.current = window.setTimeout(() => {
+          if (liveRegionRef.current) {
+            liveRegionRef.current.textContent = values;
+          }
+        }, ANNOUNCEMENT_DELAY);
+      }
+      lastValuesRef.current = values;
+    }, []);
 
     useEffect(() => {
       const initializeMathJax = async () => {
@@ -78,7 +123,7 @@ const Formula = observer(
       }
 
       return [];
-    }, [formulaIndex, formulaStore]);
+    }, [formulaIndex, formulaStore, computationStore]);
 
     const renderFormulas = useCallback(async () => {
       if (!containerRef.current) return;
@@ -93,11 +138,36 @@ const Formula = observer(
         // Clear previous MathJax content
         window.MathJax.typesetClear([container]);
 
+        // Describe each formula and its values in words for screen readers
+        const trees = formula.map((latex) =>
+          deriveFormulaTree(latex, computationStore)
+        );
+        const formulaVariables = trees.map((tree) =>
+          tree ? getFormulaVariables(tree) : []
+        );
+        const dependentVariables = Array.from(
+          new Set(formulaVariables.flat())
+        ).filter(
+          (name) => computationStore.variables.get(name)?.type === "dependent"
+        );
+
         // Create container for all expressions
         const expressionsHTML = formula
           .map((latex, index) => {
+            const tree = trees[index];
+            const description = [
+              tree ? describeFormula(tree) : latex,
+              describeVariableValues(formulaVariables[index], computationStore),
+            ]
+              .filter(Boolean)
+              .join(". ");
+
             // Process the LaTeX to include interactive elements (for display only)
-            const processedLatex = processLatexContent(latex);
+            const processedLatex = processLatexContent(
+              latex,
+              undefined,
+              computationStore
+            );
 
             // Get font size from environment with fallback
             const fontSize = environment?.fontSize ?? 0.9;
@@ -110,13 +180,26 @@ const Formula = observer(
             const fontSizeValue = `${validatedFontSize}em`;
 
             return `
-            <div class="formula-expression" data-expression-index="${index}">
+            <div class="formula-expression" data-expression-index="${index}" role="group" aria-labelledby="${descriptionId}-${index}">
+              <p id="${descriptionId}-${index}" hidden>${escapeHtml(description)}</p>
               <div class="border border-slate-200 bg-white rounded-2xl py-0 px-4 w-fit text-[${fontSizeValue}]">\\[${processedLatex}\\]</div>
             </div>
           `;
           })
           .join("");
 
+        // Keep keyboard focus on the same variable token across re-renders
+        const focused = document.activeElement;
+        const focusedToken =
+          focused && focused.id && container.contains(focused)
+            ? {
+                id: focused.id,
+                expression: focused
+                  .closest(".formula-expression")
+                  ?.getAttribute("data-expression-index"),
+              }
+            : null;
+
         container.innerHTML = expressionsHTML;
         await window.MathJax.typesetPromise([container]);
 
@@ -129,19 +212,47 @@ const Formula = observer(
         const expressionElements =
           containerRef.current.querySelectorAll(`.formula-expression`);
         expressionElements.forEach((element) => {
-          dragHandler(element as HTMLElement, variableRanges);
+          dragHandler(
+            element as HTMLElement,
+            variableRanges,
+            computationStore,
+            historyStore
+          );
           // Check if we're in step mode
           const isStepMode = environment?.computation?.mode === "step";
           if (isStepMode) {
-            stepHandler(element as HTMLElement);
+            stepHandler(element as HTMLElement, computationStore);
           } else {
-            dropdownHandler(element as HTMLElement);
+            dropdownHandler(element as HTMLElement, computationStore);
           }
         });
+
+        containerRef.current
+          .querySelectorAll("mjx-container")
+          .forEach(hideDecorativeMath);
+        announceValues(
+          describeVariableValues(dependentVariables, computationStore)
+        );
+
+        if (focusedToken) {
+          containerRef.current
+            .querySelector<HTMLElement>(
+              `.formula-expression[data-expression-index="${focusedToken.expression}"] [id="${CSS.escape(focusedToken.id)}"]`
+            )
+            ?.focus();
+        }
       } catch (error) {
         console.error("Error rendering formulas:", error);
       }
-    }, [getFormula, variableRanges, environment]);
+    }, [
+      getFormula,
+      variableRanges,
+      environment,
+      computationStore,
+      historyStore,
+      descriptionId,
+      announceValues,
+    ]);
 
     useEffect(() => {
       const disposer = reaction(
@@ -166,7 +277,13 @@ const Formula = observer(
       );
 
       return () => disposer();
-    }, [isInitialized, renderFormulas, formulaIndex, formulaStore]);
+    }, [
+      isInitialized,
+      renderFormulas,
+      formulaIndex,
+      formulaStore,
+      computationStore,
+    ]);
 
     useEffect(() => {
       if (isInitialized) {
@@ -186,6 +303,13 @@ const Formula = observer(
           ref={containerRef}
           className="formulas-container flex flex-col gap-4"
         />
+        <div
+          ref={liveRegionRef}
+          className="sr-only"
+          role="status"
+          aria-live="polite"
+          aria-atomic="true"
+        />
       </div>
     );
   }
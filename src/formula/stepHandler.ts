@@ -1,8 +1,11 @@
-import { computationStore } from "../api/computation";
+import { ComputationStore, computationStore } from "../api/computation";
 import { findVariableByElement } from "../api/variableProcessing";
 import { getVariable } from "../util/computation-helpers";
 
-export const stepHandler = (container: HTMLElement) => {
+export const stepHandler = (
+  container: HTMLElement,
+  store: ComputationStore = computationStore
+) => {
   if (!container) return;
   const interactiveElements = container.querySelectorAll(
     ".interactive-var-dropdown, .interactive-var-slider, .interactive-var-dependent"
@@ -10,12 +13,12 @@ export const stepHandler = (container: HTMLElement) => {
 
   interactiveElements.forEach((element) => {
     // Find the variable using the improved matching function
-    const variableMatch = findVariableByElement(element as HTMLElement);
+    const variableMatch = findVariableByElement(element as HTMLElement, store);
     if (!variableMatch) {
       return;
     }
     const { varId } = variableMatch;
-    const variable = getVariable(varId);
+    const variable = getVariable(varId, store);
     if (!variable) {
       return;
     }
@@ -8,7 +8,16 @@ import StorePane from "../../components/variable-overview";
 import FormulaCanvas from "../../formula/formula-canvas";
 import VisualizationRenderer from "../../visualizations/VisualizationRenderer";
 
-export default function APIPage() {
+interface APIPageProps {
+  // Code to render instead of the default example
+  initialCode?: string;
+  onInitialCodeUsed?: () => void;
+}
+
+export default function APIPage({
+  initialCode,
+  onInitialCodeUsed,
+}: APIPageProps) {
   const [currentFormulaConfig, setCurrentFormulaConfig] = useState<
     FormulizeConfig | undefined
   >(undefined);
@@ -28,6 +37,8 @@ export default function APIPage() {
         <div className="w-1/2">
           <FormulaCanvas
             formulizeConfig={currentFormulaConfig}
+            initialCode={initialCode}
+            onInitialCodeUsed={onInitialCodeUsed}
             onConfigChange={(config) => {
               setCurrentFormulaConfig(config);
             }}
@@ -1,4 +1,10 @@
+import { useEffect } from "react";
+
 import Formula from "../../formula/formula";
+import {
+  loadAutosavedWorkspace,
+  startWorkspaceAutosave,
+} from "../../store/EditorWorkspace";
 import { Debug } from "./Debug";
 import { Editor } from "./Editor";
 import { ElementPane } from "./ElementPane";
@@ -6,7 +12,17 @@ import LLMFunction from "./LLMFunction";
 import { Menu } from "./Menu";
 import { Workspace } from "./Workspace";
 
-function EditorPage() {
+interface EditorPageProps {
+  onExportToFormulize?: (code: string) => void;
+}
+
+function EditorPage({ onExportToFormulize }: EditorPageProps) {
+  // Restore the last session's workspace and keep saving it
+  useEffect(() => {
+    loadAutosavedWorkspace();
+    return startWorkspaceAutosave();
+  }, []);
+
   return (
     <div className="flex flex-row w-full h-full">
       <div className="w-[22%] flex flex-col border-r border-gray-200">
@@ -19,7 +35,7 @@ function EditorPage() {
       </div>
       <div className="w-[56%] flex flex-col">
         <div className="flex-1 relative">
-          <Menu />
+          <Menu onExportToFormulize={onExportToFormulize} />
           <Workspace />
         </div>
         <div className="flex-[0.8] border-t border-gray-200 overflow-auto">
@@ -16,6 +16,11 @@ import {
   Strikethrough,
   Text,
 } from "../../FormulaTree";
+import {
+  stringifyFormulizeDocument,
+  toFormulizeDocument,
+} from "../../api/config/loader";
+import { exportEditorFormula } from "../../api/editor-export";
 import { consolidateGroups, replaceNodes } from "../../formulaTransformations";
 import {
   editingStore,
@@ -23,6 +28,13 @@ import {
   selectionStore,
   undoStore,
 } from "../../store";
+import {
+  WORKSPACE_FILE_EXTENSION,
+  captureWorkspace,
+  parseWorkspace,
+  restoreWorkspace,
+  stringifyWorkspace,
+} from "../../store/EditorWorkspace";
 
 import AnnotateIcon from "../../Icons/AnnotateIcon.svg";
 import BoxIcon from "../../Icons/BoxIcon.svg";
@@ -30,7 +42,12 @@ import CurlyBraceListOption from "../../Icons/CurlyBraceListOption.svg";
 
 // import LogoIcon from "./Icons/LogoIcon.svg";
 
-export const Menu = () => {
+type MenuProps = {
+  // Open a Formulize config in the API page's code editor
+  onExportToFormulize?: (code: string) => void;
+};
+
+export const Menu = ({ onExportToFormulize }: MenuProps) => {
   const [openMenu, setOpenMenu] = React.useState<string | null>(null);
 
   return (
@@ -40,6 +57,10 @@ export const Menu = () => {
         e.stopPropagation();
       }}
     >
+      <OpenMenu />
+      <SaveMenu />
+      {onExportToFormulize && <ExportMenu onExport={onExportToFormulize} />}
+      <LineDivide />
       <UndoMenu />
       <RedoMenu />
       <LineDivide />
@@ -207,6 +228,81 @@ const SubMenu = ({
 //   );
 // };
 
+const SaveMenu = () => {
+  return (
+    <div
+      className="menu-btn"
+      title={`Save as ${WORKSPACE_FILE_EXTENSION}`}
+      onClick={() => {
+        const blob = new Blob([stringifyWorkspace(captureWorkspace())], {
+          type: "application/json",
+        });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `formula${WORKSPACE_FILE_EXTENSION}`;
+        link.click();
+        URL.revokeObjectURL(url);
+      }}
+    >
+      <Icon>save</Icon>
+    </div>
+  );
+};
+
+const OpenMenu = () => {
+  const inputRef = React.useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      restoreWorkspace(parseWorkspace(await file.text()));
+    } catch (error) {
+      console.error("Failed to open workspace:", error);
+      window.alert(
+        `Could not open ${file.name}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  };
+
+  return (
+    <div
+      className="menu-btn"
+      title="Open"
+      onClick={() => inputRef.current?.click()}
+    >
+      <Icon>folder_open</Icon>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onClick={(e) => e.stopPropagation()}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          // Allow opening the same file again
+          e.target.value = "";
+          if (file) handleFile(file);
+        }}
+      />
+    </div>
+  );
+};
+
+const ExportMenu = ({ onExport }: { onExport: (code: string) => void }) => {
+  return (
+    <div
+      className="menu-btn"
+      title="Export to Formulize"
+      onClick={() => {
+        const environment = exportEditorFormula(formulaStore.augmentedFormula);
+        onExport(stringifyFormulizeDocument(toFormulizeDocument(environment)));
+      }}
+    >
+      <Icon>ios_share</Icon>
+    </div>
+  );
+};
+
 const UndoMenu = observer(() => {
   return (
     <div
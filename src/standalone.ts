@@ -0,0 +1,42 @@
+/**
+ * Standalone Runtime
+ *
+ * Entry of the standalone build (npm run build:standalone), which bundles the
+ * Formulize API and its styles for pages exported with instance.exportHTML().
+ * Once MathJax is ready, every config script on the page is rendered into a
+ * container inserted after it.
+ */
+import Interpreter from "js-interpreter";
+
+import Formulize from "./api/Formulize";
+import { STANDALONE_CONFIG_TYPE } from "./api/html-export";
+import "./index.css";
+
+export * from "./api";
+
+// The app loads JS-Interpreter from a CDN, exported pages bundle it so that
+// manual functions run offline
+window.Interpreter ??= Interpreter;
+
+async function renderConfigScripts() {
+  await window.MathJax?.startup?.promise;
+  const scripts = document.querySelectorAll<HTMLScriptElement>(
+    `script[type="${STANDALONE_CONFIG_TYPE}"]`
+  );
+  for (const [index, script] of Array.from(scripts).entries()) {
+    const container = document.createElement("div");
+    container.id = `formulize-${index}`;
+    script.after(container);
+    try {
+      await Formulize.load(script.textContent ?? "", container.id);
+    } catch (error) {
+      container.textContent = `Could not load the formula: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+}
+
+if (document.readyState === "loading") {
+  document.addEventListener("DOMContentLoaded", renderConfigScripts);
+} else {
+  renderConfigScripts();
+}
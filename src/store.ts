@@ -710,6 +710,13 @@ class UndoStore {
     }
   }
 
+  // Replace the history, e.g. with a saved workspace's
+  @action
+  restore(history: string[], currentIdx: number) {
+    this.history = [...history];
+    this.currentIdx = Math.min(currentIdx, history.length - 1);
+  }
+
   @computed
   get canUndo() {
     return this.currentIdx > 0;
@@ -0,0 +1,278 @@
+/**
+ * Editor Workspace Persistence
+ *
+ * The editor page's formula, its undo history and the variable types are
+ * saved as a versioned workspace, automatically to localStorage and on
+ * request to .formulize.json files. Workspaces saved by older versions are
+ * migrated when they are loaded.
+ */
+import { reaction, runInAction, toJS } from "mobx";
+
+import {
+  FormulaLatexRangeNode,
+  FormulaLatexRanges,
+  StyledRange,
+  UnstyledRange,
+} from "../FormulaText";
+import { computationStore } from "../api/computation";
+import { editingStore, formulaStore, undoStore } from "../store";
+import { IVariable, VariableValue } from "../types/variable";
+
+export const WORKSPACE_FORMAT = "formulize-workspace";
+export const WORKSPACE_VERSION = 1;
+export const WORKSPACE_FILE_EXTENSION = ".formulize.json";
+
+const STORAGE_KEY = "formulize:editor-workspace";
+const AUTOSAVE_DELAY = 500;
+
+type SerializedRange =
+  | { text: string }
+  | {
+      id: string;
+      left: string;
+      children: SerializedRange[];
+      right: string;
+      hints?: StyledRange["hints"];
+    };
+
+export interface IEditorWorkspace {
+  format: typeof WORKSPACE_FORMAT;
+  version: number;
+  // LaTeX of the formula with its styling
+  latex: string;
+  // Styled ranges of an edit that isn't valid LaTeX yet
+  styledRanges: SerializedRange[] | null;
+  history: {
+    entries: string[];
+    index: number;
+  };
+  variables: Record<string, { type: IVariable["type"]; value?: VariableValue }>;
+  alignMode: boolean;
+}
+
+// Migrations from each version to the next. Add one whenever the workspace
+// format changes and increase WORKSPACE_VERSION.
+const MIGRATIONS: Record<
+  number,
+  (workspace: Record<string, unknown>) => Record<string, unknown>
+> = {};
+
+const serializeRange = (range: FormulaLatexRangeNode): SerializedRange =>
+  range instanceof StyledRange
+    ? {
+        id: range.id,
+        left: range.left,
+        children: range.children.map(serializeRange),
+        right: range.right,
+        hints: range.hints,
+      }
+    : { text: range.text };
+
+const deserializeRange = (range: SerializedRange): FormulaLatexRangeNode =>
+  "text" in range
+    ? new UnstyledRange(range.text)
+    : new StyledRange(
+        range.id,
+        range.left,
+        range.children.map(deserializeRange),
+        range.right,
+        range.hints
+      );
+
+const VARIABLE_TYPES: IVariable["type"][] = ["constant", "input", "dependent"];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isSerializedRange = (value: unknown): value is SerializedRange => {
+  if (!isRecord(value)) return false;
+  if ("text" in value) return typeof value.text === "string";
+  return (
+    typeof value.id === "string" &&
+    typeof value.left === "string" &&
+    typeof value.right === "string" &&
+    Array.isArray(value.children) &&
+    value.children.every(isSerializedRange)
+  );
+};
+
+/**
+ * Check that a migrated workspace has every field restoreWorkspace reads, so
+ * that a hand-edited or truncated file fails before any state is replaced
+ * @throws Naming the first invalid field
+ */
+function validateWorkspace(
+  workspace: Record<string, unknown>
+): IEditorWorkspace {
+  const invalid = (field: string) =>
+    new Error(`Invalid workspace: "${field}" is missing or malformed`);
+  const { latex, styledRanges, history, variables, alignMode } = workspace;
+
+  if (typeof latex !== "string") throw invalid("latex");
+  if (
+    styledRanges !== null &&
+    !(Array.isArray(styledRanges) && styledRanges.every(isSerializedRange))
+  ) {
+    throw invalid("styledRanges");
+  }
+  if (
+    !isRecord(history) ||
+    !Array.isArray(history.entries) ||
+    !history.entries.every((entry) => typeof entry === "string") ||
+    !Number.isInteger(history.index) ||
+    (history.index as number) < -1
+  ) {
+    throw invalid("history");
+  }
+  if (!isRecord(variables)) throw invalid("variables");
+  for (const [id, variable] of Object.entries(variables)) {
+    if (
+      !isRecord(variable) ||
+      !VARIABLE_TYPES.includes(variable.type as IVariable["type"])
+    ) {
+      throw invalid(`variables.${id}`);
+    }
+  }
+  if (typeof alignMode !== "boolean") throw invalid("alignMode");
+
+  return workspace as unknown as IEditorWorkspace;
+}
+
+/**
+ * Capture the current state of the editor page
+ */
+export function captureWorkspace(): IEditorWorkspace {
+  const variables: IEditorWorkspace["variables"] = {};
+  for (const [id, variable] of computationStore.variables.entries()) {
+    variables[id] = { type: variable.type, value: toJS(variable.value) };
+  }
+  return {
+    format: WORKSPACE_FORMAT,
+    version: WORKSPACE_VERSION,
+    latex: formulaStore.latexWithStyling,
+    styledRanges:
+      formulaStore.styledRangesOverride?.ranges.map(serializeRange) ?? null,
+    history: {
+      entries: [...undoStore.history],
+      index: undoStore.currentIdx,
+    },
+    variables,
+    alignMode: editingStore.showAlignMode,
+  };
+}
+
+/**
+ * Bring a saved workspace up to the current version
+ * @throws If the data isn't a valid workspace or was saved by a newer version
+ */
+export function migrateWorkspace(data: unknown): IEditorWorkspace {
+  if (
+    typeof data !== "object" ||
+    data === null ||
+    (data as Record<string, unknown>).format !== WORKSPACE_FORMAT
+  ) {
+    throw new Error("Not a Formulize workspace");
+  }
+  let workspace = data as Record<string, unknown>;
+  let version = Number(workspace.version);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid workspace version "${workspace.version}"`);
+  }
+  if (version > WORKSPACE_VERSION) {
+    throw new Error(
+      `The workspace was saved by a newer version (${version}) than this editor supports (${WORKSPACE_VERSION})`
+    );
+  }
+  while (version < WORKSPACE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from workspace version ${version}`);
+    }
+    workspace = migrate(workspace);
+    version++;
+  }
+  return validateWorkspace({ ...workspace, version });
+}
+
+/**
+ * Replace the editor page's state with a workspace
+ */
+export function restoreWorkspace(workspace: IEditorWorkspace) {
+  const styledRanges = workspace.styledRanges
+    ? new FormulaLatexRanges(workspace.styledRanges.map(deserializeRange))
+    : null;
+  runInAction(() => {
+    formulaStore.restoreFormulaState(workspace.latex);
+    formulaStore.overrideStyledRanges(styledRanges);
+    undoStore.restore(workspace.history.entries, workspace.history.index);
+
+    computationStore.clearAllVariables();
+    for (const [id, { type, value }] of Object.entries(workspace.variables)) {
+      computationStore.addVariable(id, { value });
+      computationStore.setVariableType(id, type);
+    }
+    editingStore.setShowAlignMode(workspace.alignMode);
+  });
+}
+
+/**
+ * Parse and migrate the contents of a .formulize.json file
+ */
+export function parseWorkspace(text: string): IEditorWorkspace {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Invalid workspace file: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  return migrateWorkspace(data);
+}
+
+export function stringifyWorkspace(workspace: IEditorWorkspace): string {
+  return JSON.stringify(workspace, null, 2);
+}
+
+// localStorage may be unavailable (private mode, sandboxed frames, Node)
+const getStorage = (): Storage | null => {
+  try {
+    return typeof localStorage === "undefined" ? null : localStorage;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Restore the workspace autosaved to localStorage, if there is one
+ * @returns Whether a workspace was restored
+ */
+export function loadAutosavedWorkspace(): boolean {
+  const saved = getStorage()?.getItem(STORAGE_KEY);
+  if (!saved) return false;
+  try {
+    restoreWorkspace(parseWorkspace(saved));
+    return true;
+  } catch (error) {
+    console.warn("Failed to restore the autosaved workspace:", error);
+    return false;
+  }
+}
+
+/**
+ * Save the workspace to localStorage whenever it changes
+ * @returns A function that stops saving
+ */
+export function startWorkspaceAutosave(): () => void {
+  return reaction(
+    () => stringifyWorkspace(captureWorkspace()),
+    (serialized) => {
+      try {
+        getStorage()?.setItem(STORAGE_KEY, serialized);
+      } catch (error) {
+        console.warn("Failed to autosave the workspace:", error);
+      }
+    },
+    { delay: AUTOSAVE_DELAY }
+  );
+}
@@ -11,7 +11,10 @@ import {
   parseVariableStrings,
   updateFormula,
 } from "../FormulaTree";
-import { computationStore } from "../api/computation";
+import {
+  ComputationStore,
+  computationStore as defaultComputationStore,
+} from "../api/computation";
 import { canonicalizeFormula } from "../formulaTransformations";
 
 export class FormulaStore {
@@ -24,7 +27,10 @@ export class FormulaStore {
   @observable
   accessor styledRangesOverride: FormulaLatexRanges | null = null;
 
-  constructor(public id: string) {}
+  constructor(
+    public id: string,
+    private computationStore: ComputationStore = defaultComputationStore
+  ) {}
 
   @action
   updateFormula(newFormula: AugmentedFormula) {
@@ -40,7 +46,7 @@ export class FormulaStore {
   @action
   restoreFormulaState(latex: string) {
     const allVariableSymbols = Array.from(
-      computationStore.variables.keys()
+      this.computationStore.variables.keys()
     ).filter((symbol) => symbol && symbol.length > 0);
     const variableTrees = parseVariableStrings(allVariableSymbols);
     const newFormula = deriveTreeWithVars(
@@ -137,13 +143,18 @@ export class FormulaStoreManager {
   @observable
   private accessor stores = new Map<string, FormulaStore>();
 
+  // The computation store whose variables are grouped in the formula trees
+  constructor(
+    private computationStore: ComputationStore = defaultComputationStore
+  ) {}
+
   @action
   createStore(id: string, formulaLatex?: string): FormulaStore {
-    const store = new FormulaStore(id);
+    const store = new FormulaStore(id, this.computationStore);
     if (formulaLatex) {
       // Get all variables from computation store and convert to trees
       const allVariableSymbols = Array.from(
-        computationStore.variables.keys()
+        this.computationStore.variables.keys()
       ).filter((symbol) => symbol && symbol.length > 0);
       const variableTrees = parseVariableStrings(allVariableSymbols);
       const formula = deriveTreeWithVars(
@@ -0,0 +1,52 @@
+import { createContext, useContext } from "react";
+
+import { ComputationStore, computationStore } from "../api/computation";
+import { ExecutionStore, executionStore } from "../api/execution";
+import {
+  FormulaStoreManager,
+  formulaStoreManager,
+} from "./FormulaStoreManager";
+import {
+  VariableHistoryStore,
+  variableHistoryStore,
+} from "./VariableHistoryStore";
+
+/**
+ * The set of stores that back a single Formulize instance.
+ * Each embedded instance owns its own set so that several formulas
+ * can live on one page without overwriting each other's state.
+ */
+export interface FormulizeStores {
+  computationStore: ComputationStore;
+  formulaStoreManager: FormulaStoreManager;
+  executionStore: ExecutionStore;
+  historyStore: VariableHistoryStore;
+}
+
+// Stores used by the API page and by instances created without a container
+export const defaultStores: FormulizeStores = {
+  computationStore,
+  formulaStoreManager,
+  executionStore,
+  historyStore: variableHistoryStore,
+};
+
+/**
+ * Creates a fresh, isolated set of stores for an embedded instance
+ */
+export function createStores(): FormulizeStores {
+  const computation = new ComputationStore();
+  return {
+    computationStore: computation,
+    formulaStoreManager: new FormulaStoreManager(computation),
+    executionStore: new ExecutionStore(),
+    historyStore: new VariableHistoryStore(computation),
+  };
+}
+
+export const FormulizeStoreContext =
+  createContext<FormulizeStores>(defaultStores);
+
+// Stores of the Formulize instance the calling component is rendered in
+export const useFormulizeStores = (): FormulizeStores =>
+  useContext(FormulizeStoreContext);
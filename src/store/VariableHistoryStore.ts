@@ -0,0 +1,211 @@
+import { action, computed, observable, reaction } from "mobx";
+
+import {
+  ComputationStore,
+  ValueChange,
+  computationStore,
+} from "../api/computation";
+import { VariableValue } from "../types/variable";
+
+// Changes to the same variables closer together than this are merged, so
+// that a slider drag or a held arrow key is undone in one step
+const COALESCE_INTERVAL = 500;
+const MAX_ENTRIES = 100;
+
+interface HistoryChange {
+  before: VariableValue | undefined;
+  after: VariableValue;
+}
+
+interface HistoryEntry {
+  changes: Map<string, HistoryChange>;
+  time: number;
+}
+
+const cloneValue = <T extends VariableValue | undefined>(value: T): T =>
+  Array.isArray(value) ? (JSON.parse(JSON.stringify(value)) as T) : value;
+
+/**
+ * Undo and redo history of the values set in a computation store, e.g. by
+ * dragging variables, sliders, dropdowns and setVariable()
+ */
+export class VariableHistoryStore {
+  @observable.shallow
+  accessor past: HistoryEntry[] = [];
+
+  @observable.shallow
+  accessor future: HistoryEntry[] = [];
+
+  // Entry that further changes are merged into, kept by reference so the
+  // entries above are shallow observables
+  private openEntry: HistoryEntry | null = null;
+  private gestureDepth = 0;
+  private isRestoring = false;
+  private disposers: (() => void)[];
+
+  constructor(private computationStore: ComputationStore) {
+    this.disposers = [
+      computationStore.addValueListener((changes) => this.record(changes)),
+      // Plot drags set isDragging, each drag is one entry
+      reaction(
+        () => computationStore.isDragging,
+        () => {
+          this.openEntry = null;
+        }
+      ),
+    ];
+  }
+
+  // Stop recording changes, e.g. when the instance owning the store is destroyed
+  dispose() {
+    this.disposers.forEach((dispose) => dispose());
+    this.disposers = [];
+  }
+
+  @computed
+  get canUndo() {
+    return this.past.length > 0;
+  }
+
+  @computed
+  get canRedo() {
+    return this.future.length > 0;
+  }
+
+  // Merge every change until endGesture() into one entry, e.g. for a drag
+  beginGesture() {
+    if (this.gestureDepth++ === 0) {
+      this.openEntry = null;
+    }
+  }
+
+  endGesture() {
+    this.gestureDepth = Math.max(0, this.gestureDepth - 1);
+    if (this.gestureDepth === 0) {
+      this.openEntry = null;
+    }
+  }
+
+  // Record the changes of one setValue call or transaction
+  @action
+  private record(changes: ValueChange[]) {
+    if (this.isRestoring || changes.length === 0) return;
+    const now = Date.now();
+    const [first] = changes;
+    let entry = this.openEntry;
+    const merge =
+      entry !== null &&
+      (this.gestureDepth > 0 ||
+        this.computationStore.isDragging ||
+        (changes.length === 1 &&
+          entry.changes.size === 1 &&
+          entry.changes.has(first.id) &&
+          now - entry.time < COALESCE_INTERVAL));
+
+    if (!merge || !entry) {
+      entry = { changes: new Map(), time: now };
+      this.past = [...this.past, entry].slice(-MAX_ENTRIES);
+      this.openEntry = entry;
+    }
+    for (const { id, value, previous } of changes) {
+      const change = entry.changes.get(id);
+      entry.changes.set(id, {
+        before: change ? change.before : cloneValue(previous),
+        after: cloneValue(value),
+      });
+    }
+    entry.time = now;
+    this.future = [];
+  }
+
+  // Set the values of an entry. If that fails the transaction keeps every
+  // value, the error is reported and false returned.
+  @action
+  private apply(entry: HistoryEntry, direction: "before" | "after"): boolean {
+    this.isRestoring = true;
+    try {
+      this.computationStore.transaction(() => {
+        for (const [id, change] of entry.changes) {
+          const value = change[direction];
+          if (value !== undefined) {
+            this.computationStore.setValue(id, cloneValue(value));
+          }
+        }
+      });
+      return true;
+    } catch (error) {
+      this.computationStore.setEvaluationError(
+        `Could not ${direction === "before" ? "undo" : "redo"}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return false;
+    } finally {
+      this.isRestoring = false;
+    }
+  }
+
+  // Restore the values before the last change, returns false if there is
+  // none or it could not be undone
+  @action
+  undo(): boolean {
+    const entry = this.past[this.past.length - 1];
+    if (!entry) return false;
+    this.openEntry = null;
+    if (!this.apply(entry, "before")) return false;
+    this.past = this.past.slice(0, -1);
+    this.future = [...this.future, entry];
+    return true;
+  }
+
+  // Reapply the last undone change, returns false if there is none or it
+  // could not be redone
+  @action
+  redo(): boolean {
+    const entry = this.future[this.future.length - 1];
+    if (!entry) return false;
+    this.openEntry = null;
+    if (!this.apply(entry, "after")) return false;
+    this.future = this.future.slice(0, -1);
+    this.past = [...this.past, entry];
+    return true;
+  }
+
+  @action
+  clear() {
+    this.past = [];
+    this.future = [];
+    this.openEntry = null;
+  }
+}
+
+/**
+ * Handle the undo and redo keyboard shortcuts: Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z
+ * and Ctrl+Y. Text fields keep their own undo.
+ * @returns Whether the event was handled
+ */
+export const handleHistoryShortcut = (
+  event: KeyboardEvent,
+  history: VariableHistoryStore
+): boolean => {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) return false;
+  const target = event.target as HTMLElement | null;
+  if (
+    target?.isContentEditable ||
+    target?.closest("input, textarea, select, .cm-editor")
+  ) {
+    return false;
+  }
+  const key = event.key.toLowerCase();
+  if (key === "z" && !event.shiftKey) {
+    history.undo();
+  } else if ((key === "z" && event.shiftKey) || key === "y") {
+    history.redo();
+  } else {
+    return false;
+  }
+  event.preventDefault();
+  return true;
+};
+
+export const variableHistoryStore = new VariableHistoryStore(computationStore);
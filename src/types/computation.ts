@@ -1,7 +1,31 @@
+import { VariableValue } from "./variable";
+
 export interface IComputation {
-  engine: "symbolic-algebra" | "llm" | "manual";
+  // "symbolic-algebra", "llm", "manual" or an engine added with registerEngine()
+  engine: string;
   mappings?: Record<string, (...args: unknown[]) => unknown>;
   apiKey?: string;
   model?: string;
+  // LLM provider: "openai" (default), "ollama", "fixture" or a registered one
+  provider?: string;
+  // Endpoint URL for the LLM provider, e.g. a local OpenAI-compatible server
+  endpoint?: string;
   mode?: "step" | "normal";
+  // Checks for LLM-generated functions; on by default for the llm engine
+  verification?: IVerification | false;
+}
+
+// Verification of generated evaluation functions against the symbolic-algebra
+// engine, or against the formula's sample points when it has them
+export interface IVerification {
+  trials?: number; // Random inputs checked against the symbolic engine
+  tolerance?: number; // Relative tolerance when comparing results
+  retries?: number; // Times to regenerate a function that fails
+  onMismatch?: "reject" | "warn"; // Reject: report an error and don't use it
+}
+
+// An input and the values a formula must compute from it
+export interface IVerificationSample {
+  inputs: Record<string, VariableValue>;
+  expected: Record<string, VariableValue>;
 }
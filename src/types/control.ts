@@ -1,3 +1,5 @@
+import { VariableValue } from "./variable";
+
 export interface IControl {
   id?: string;
   type: "slider" | "dropdown" | "checkbox" | "button" | "radio" | "array";
@@ -16,26 +18,39 @@ export interface IArrayControl extends IControl {
   index?: string; // Variable name for the index (e.g., "i" in for loops)
 }
 
+export interface IControlOption {
+  value: string | number; // Numeric values are written to the variable as numbers, others as the option's index
+  label: string;
+}
+
 export interface IDropdownControl extends IControl {
   type: "dropdown";
-  options: Array<{ value: string; label: string }>;
+  options: IControlOption[];
   placeholder?: string;
 }
 
 export interface ICheckboxControl extends IControl {
   type: "checkbox";
-  checked?: boolean;
+  checked?: boolean; // Initial state when no variable is bound
+  label?: string;
 }
 
 export interface IButtonControl extends IControl {
   type: "button";
-  onClick?: () => void;
+  label?: string;
+  // Reset restores initial values, randomize picks values within each range.
+  // Applies to the control's variable, or to every input variable
+  action?: "reset" | "randomize";
+  // Receives the variable values; the values it returns are written back
+  onClick?: (
+    variables: Record<string, VariableValue>
+  ) => Record<string, VariableValue> | void;
 }
 
 export interface IRadioControl extends IControl {
   type: "radio";
-  options: Array<{ value: string; label: string }>;
-  selectedValue?: string;
+  options: IControlOption[];
+  selectedValue?: string | number; // Initial selection when no variable is bound
 }
 
 export type IControls =
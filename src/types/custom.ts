@@ -1,3 +1,5 @@
+import { VariableValue } from "./variable";
+
 // code: Inline JavaScript code as string
 // component: Reference to a pre-defined component
 // renderFunction: Custom render function
@@ -17,7 +19,7 @@ export interface ICustom {
 
 // Context object passed to custom visualizations
 export interface IContext {
-  variables: Record<string, number>; // Current variable values
-  updateVariable: (variableName: string, value: number) => void; // Function to update formula variables
+  variables: Record<string, VariableValue>; // Current variable values
+  updateVariable: (variableName: string, value: VariableValue) => void; // Function to update formula variables
   getVariable: (variableName: string) => number; // Function to get current variable value
 }
@@ -0,0 +1,26 @@
+import { IComputation } from "./computation";
+import { IButtonControl, IControls } from "./control";
+import { IEnvironment } from "./environment";
+import { IFormula } from "./formula";
+
+// Serializable counterparts of the environment types, which hold no live
+// functions so that documents can be stored as JSON or YAML
+
+export interface IFormulaDocument extends Omit<IFormula, "manual"> {
+  manual?: string; // Source of the manual function, or its body
+}
+
+export type IComputationDocument = Omit<IComputation, "mappings">;
+
+export type IControlDocument =
+  | Exclude<IControls, IButtonControl>
+  | Omit<IButtonControl, "onClick">;
+
+export interface IFormulizeDocument
+  extends Omit<IEnvironment, "formulas" | "computation" | "controls"> {
+  $schema?: string;
+  version?: 1;
+  formulas: IFormulaDocument[];
+  computation: IComputationDocument;
+  controls?: IControlDocument[];
+}
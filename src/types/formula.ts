@@ -1,9 +1,11 @@
-import { IVariable } from "./variable";
+import { IVerificationSample } from "./computation";
+import { IVariable, VariableValue } from "./variable";
 
 export interface IFormula {
   name: string;
   function: string;
   expression?: string; // Optional computational expression for this formula
-  manual?: (variables: Record<string, IVariable>) => number; // Optional manual computation function
+  manual?: (variables: Record<string, IVariable>) => VariableValue; // Optional manual computation function
   variableLinkage?: Record<string, string>; // Maps local variable names to computationStore variable names
+  samples?: IVerificationSample[]; // Known results that generated functions are checked against
 }
@@ -1,22 +1,95 @@
 export interface IVector {
-  x: (string | number)[];
-  y: (string | number)[];
+  x?: (string | number)[];
+  y?: (string | number)[];
+  variable?: string; // 2-vector variable to draw, or a matrix with one [x, y] row per point
+  origin?: [number, number] | string; // Tail of a bound vector, as coordinates or a 2-vector variable
+
   shape?: "arrow" | "dash" | "point";
   color?: string;
   lineWidth?: number;
   markerSize?: number;
   name?: string;
-  draggable?: boolean;
+  draggable?: boolean; // Drag points bound to input variables, snapped to their step and range
   showlegend?: boolean;
 }
 
 export interface ILine {
+  // How the curve is given, "explicit" (y = f(x) of the plot's xVar and yVar)
+  // if omitted:
+  // - "parametric": xVar and yVar as functions of parameter
+  // - "implicit": the points where implicitVar, a function of xVar and yVar,
+  //   equals 0
+  // - "polar": radiusVar as a function of the angle parameter
+  curve?: "explicit" | "parametric" | "implicit" | "polar";
+  parameter?: string; // Parameter of parametric curves, angle of polar curves
+  parameterRange?: [number, number]; // Defaults to the parameter's range or [0, 2π]
+  implicitVar?: string;
+  radiusVar?: string;
+  resolution?: number; // Grid cells per side for implicit curves
+  // Variables of this line, if not the plot's xVar and yVar
+  xVar?: string;
+  yVar?: string;
+  // Formula solved for the line's variables, instead of evaluating all of them
+  formula?: string;
+  // Fixed values of other variables for this line, e.g. { m: 2 } to compare
+  // the same curve at other masses
+  values?: Record<string, number>;
+  // Evenly spaced samples of the curve, refined where it bends or breaks off
+  // until maxSamples points have been evaluated
+  samples?: number;
+  maxSamples?: number;
   color?: string;
   lineWidth?: number;
   name?: string;
   showInLegend?: boolean;
 }
 
+// Limits and positions are numbers or the names of variables
+type PlotValue = number | string;
+
+export interface IRegion {
+  // Area between the curve of yVar (the plot's yVar if omitted) and the curve
+  // of lowerVar or the x-axis, for xVar from `from` to `to`
+  yVar?: string;
+  lowerVar?: string;
+  formula?: string; // Formula solved for yVar, as for lines
+  lowerFormula?: string; // Formula solved for lowerVar
+  from?: PlotValue; // Defaults to the ends of xRange
+  to?: PlotValue;
+  color?: string;
+  opacity?: number;
+  name?: string;
+  showArea?: boolean; // Label the region with its area, true if omitted
+}
+
+export interface IReferenceLine {
+  orientation: "vertical" | "horizontal";
+  value: PlotValue;
+  label?: string;
+  color?: string;
+  lineWidth?: number;
+  dashed?: boolean;
+}
+
+export interface IAnnotation {
+  text: string; // {name} is replaced with the value of the variable
+  x: PlotValue;
+  y: PlotValue;
+  anchor?: "start" | "middle" | "end";
+  color?: string;
+  fontSize?: number;
+}
+
+export interface ITangent {
+  // Tangent of the curve of yVar (the plot's yVar if omitted) at the current
+  // value of the plot's xVar
+  yVar?: string;
+  formula?: string;
+  color?: string;
+  lineWidth?: number;
+  showSlope?: boolean; // Label the tangent with its slope, true if omitted
+}
+
 export interface IPlot2D {
   type: "plot2d";
   id?: string;
@@ -27,6 +100,10 @@ export interface IPlot2D {
   yRange?: [number, number];
   vectors?: IVector[];
   lines?: ILine[];
+  regions?: IRegion[];
+  referenceLines?: IReferenceLine[];
+  annotations?: IAnnotation[];
+  tangents?: ITangent[];
   width?: number | string;
   height?: number | string;
   tickFontSize?: number;
@@ -5,12 +5,16 @@ export const INPUT_VARIABLE_DEFAULT = {
   VALUE: 0 as number,
 };
 
+// Scalars are numbers, vectors are arrays and matrices are arrays of rows
+export type VariableValue = number | number[] | number[][];
+
 export interface IVariable {
   type: "constant" | "input" | "dependent";
-  value?: number;
+  value?: VariableValue;
   dataType?: "scalar" | "vector" | "matrix";
-  dimensions?: number[];
-  units?: string;
+  dimensions?: number[]; // [n] for vectors, [rows, columns] for matrices
+  units?: string; // Units the value is computed in, e.g. "m/s"
+  displayUnits?: string; // Units the value is shown in, e.g. "km/h"
   label?: string;
   precision?: number;
   description?: string;
@@ -1,14 +1,21 @@
-import { computationStore } from "../api/computation";
+import { ComputationStore, computationStore } from "../api/computation";
+import { IControlOption } from "../types/control";
+import { INPUT_VARIABLE_DEFAULT, VariableValue } from "../types/variable";
+import { toScalar } from "./variable-value";
 
 /**
  * Get a variable value from the computation store
  * @param variableName - The name/symbol of the variable to retrieve
- * @returns The variable value or 0 if not found
+ * @param store - The computation store to read from (defaults to the global store)
+ * @returns The scalar variable value, or 0 if not found or not a scalar
  */
-export const getVariableValue = (variableName: string): number => {
+export const getVariableValue = (
+  variableName: string,
+  store: ComputationStore = computationStore
+): number => {
   try {
-    const variable = computationStore.variables.get(variableName);
-    return variable?.value ?? 0;
+    const variable = store.variables.get(variableName);
+    return toScalar(variable?.value);
   } catch (error) {
     console.warn(`Variable ${variableName} not found:`, error);
     return 0;
@@ -17,11 +24,14 @@ export const getVariableValue = (variableName: string): number => {
 
 /**
  * Get all variables from the computation store as a record
+ * @param store - The computation store to read from (defaults to the global store)
  * @returns Record of variable names to their values
  */
-export const getAllVariables = (): Record<string, number> => {
-  const variables: Record<string, number> = {};
-  computationStore.variables.forEach((variable, name) => {
+export const getAllVariables = (
+  store: ComputationStore = computationStore
+): Record<string, VariableValue> => {
+  const variables: Record<string, VariableValue> = {};
+  store.variables.forEach((variable, name) => {
     if (variable.value !== undefined) {
       variables[name] = variable.value;
     }
@@ -32,23 +42,131 @@ export const getAllVariables = (): Record<string, number> => {
 /**
  * Get a variable object from the computation store
  * @param variableName - The name/symbol of the variable to retrieve
+ * @param store - The computation store to read from (defaults to the global store)
  * @returns The variable object or undefined if not found
  */
-export const getVariable = (variableName: string) => {
-  return computationStore.variables.get(variableName);
+export const getVariable = (
+  variableName: string,
+  store: ComputationStore = computationStore
+) => {
+  return store.variables.get(variableName);
 };
 
 /**
  * Update a variable value in the computation store
  * @param variableName - The name/symbol of the variable to update
  * @param value - The new value to set
+ * @param store - The computation store to write to (defaults to the global store)
  */
-export const updateVariable = (variableName: string, value: number) => {
+export const updateVariable = (
+  variableName: string,
+  value: VariableValue,
+  store: ComputationStore = computationStore
+) => {
   try {
-    if (computationStore.variables.has(variableName)) {
-      computationStore.setValue(variableName, value);
+    if (store.variables.has(variableName)) {
+      store.setValue(variableName, value);
     }
   } catch (error) {
     console.error(`Error updating variable ${variableName}:`, error);
   }
 };
+
+/**
+ * Update several variable values together, with one evaluation and one undo
+ * step
+ * @param values - The new values by variable name/symbol
+ * @param store - The computation store to write to (defaults to the global store)
+ */
+export const updateVariables = (
+  values: Record<string, VariableValue>,
+  store: ComputationStore = computationStore
+) => {
+  const known = Object.entries(values).filter(([name]) =>
+    store.variables.has(name)
+  );
+  if (known.length === 0) return;
+  try {
+    store.setValues(Object.fromEntries(known));
+  } catch (error) {
+    console.error("Error updating variables:", error);
+  }
+};
+
+/**
+ * Get the value a dropdown or radio option writes to its variable
+ * @param option - The control option
+ * @param index - The option's position in the control's options
+ * @returns The option value as a number, or the index for non-numeric values
+ */
+export const getOptionValue = (
+  option: IControlOption,
+  index: number
+): number => {
+  if (typeof option.value === "number") return option.value;
+  const value = Number(option.value);
+  return option.value.trim() !== "" && Number.isFinite(value) ? value : index;
+};
+
+// Names of the given variables, or of every input variable
+const getTargetVariables = (
+  store: ComputationStore,
+  variableNames?: string[]
+): string[] =>
+  variableNames ??
+  Array.from(store.variables.entries())
+    .filter(([, variable]) => variable.type === "input")
+    .map(([name]) => name);
+
+/**
+ * Restore variables to the values they were configured with
+ * @param variableNames - Variables to reset (defaults to all input variables)
+ * @param store - The computation store to write to (defaults to the global store)
+ */
+export const resetVariables = (
+  variableNames?: string[],
+  store: ComputationStore = computationStore
+) => {
+  const values: Record<string, VariableValue> = {};
+  for (const name of getTargetVariables(store, variableNames)) {
+    const initial = store.environment?.variables[name]?.value;
+    if (initial !== undefined) {
+      values[name] = initial;
+    }
+  }
+  updateVariables(values, store);
+};
+
+/**
+ * Set variables to random values within their range, snapped to their step
+ * @param variableNames - Variables to randomize (defaults to all input variables)
+ * @param store - The computation store to write to (defaults to the global store)
+ */
+export const randomizeVariables = (
+  variableNames?: string[],
+  store: ComputationStore = computationStore
+) => {
+  const values: Record<string, VariableValue> = {};
+  for (const name of getTargetVariables(store, variableNames)) {
+    const variable = store.variables.get(name);
+    if (!variable) continue;
+    const [min, max] = variable.range ?? [
+      INPUT_VARIABLE_DEFAULT.MIN_VALUE,
+      INPUT_VARIABLE_DEFAULT.MAX_VALUE,
+    ];
+    const pick = () => {
+      const value = min + Math.random() * (max - min);
+      if (!variable.step) return value;
+      const snapped =
+        min + Math.round((value - min) / variable.step) * variable.step;
+      return Math.min(max, snapped);
+    };
+    const value = Array.isArray(variable.value)
+      ? (variable.value.map((item) =>
+          Array.isArray(item) ? item.map(pick) : pick()
+        ) as VariableValue)
+      : pick();
+    values[name] = value;
+  }
+  updateVariables(values, store);
+};
@@ -1,17 +1,17 @@
-import { IFormula } from "../types/formula";
+import { ComputationStore, computationStore } from "../api/computation";
 
 /**
- * Get formula expression by name from the global Formulize configuration
+ * Get formula expression by name from the environment of a Formulize instance
  * @param formulaName - The name of the formula to retrieve
+ * @param store - The computation store holding the environment (defaults to the global store)
  * @returns The formula expression string or null if not found
  */
-export const getFormulaByName = (formulaName: string): string | null => {
+export const getFormulaByName = (
+  formulaName: string,
+  store: ComputationStore = computationStore
+): string | null => {
   try {
-    const currentConfig = (
-      window as typeof window & {
-        __lastFormulizeConfig?: { formulas?: IFormula[] };
-      }
-    ).__lastFormulizeConfig;
+    const currentConfig = store.environment;
     if (!currentConfig || !currentConfig.formulas) {
       return null;
     }
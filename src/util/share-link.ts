@@ -0,0 +1,126 @@
+/**
+ * Shareable Links
+ *
+ * The API page keeps its configuration in the URL hash: the name of the
+ * selected example, or the compressed code when it isn't an example, and the
+ * values of the input variables prefixed with "v.", so that any variable name
+ * can be used, e.g. #example=kineticEnergy&v.m=3&v.v=7
+ */
+import { VariableValue } from "../types/variable";
+
+export interface ShareState {
+  // Name of an example in src/examples
+  example?: string;
+  // Configuration code that isn't an example
+  code?: string;
+  // Values of the input variables
+  values: Record<string, VariableValue>;
+}
+
+const EXAMPLE_PARAM = "example";
+const CODE_PARAM = "code";
+// Prefix of the parameters holding variable values
+const VALUE_PREFIX = "v.";
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+const fromBase64Url = (text: string): Uint8Array =>
+  Uint8Array.from(atob(text.replace(/-/g, "+").replace(/_/g, "/")), (char) =>
+    char.charCodeAt(0)
+  );
+
+async function transform(
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+export async function compressText(text: string): Promise<string> {
+  const bytes = new TextEncoder().encode(text);
+  return toBase64Url(
+    await transform(bytes, new CompressionStream("deflate-raw"))
+  );
+}
+
+export async function decompressText(text: string): Promise<string> {
+  const bytes = await transform(
+    fromBase64Url(text),
+    new DecompressionStream("deflate-raw")
+  );
+  return new TextDecoder().decode(bytes);
+}
+
+const parseValue = (text: string): VariableValue | undefined => {
+  try {
+    const value = JSON.parse(text);
+    if (typeof value === "number" || Array.isArray(value)) return value;
+  } catch {
+    // Not a value
+  }
+  return undefined;
+};
+
+/**
+ * Encode the state as a URL hash, without the leading "#"
+ */
+export async function encodeShareState(state: ShareState): Promise<string> {
+  const params = new URLSearchParams();
+  if (state.example) {
+    params.set(EXAMPLE_PARAM, state.example);
+  } else if (state.code) {
+    params.set(CODE_PARAM, await compressText(state.code));
+  }
+  for (const [name, value] of Object.entries(state.values)) {
+    params.set(VALUE_PREFIX + name, JSON.stringify(value));
+  }
+  return params.toString();
+}
+
+/**
+ * Decode a URL hash written by encodeShareState
+ * @returns The state, or null if the hash has no example or code
+ */
+export async function decodeShareState(
+  hash: string
+): Promise<ShareState | null> {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const example = params.get(EXAMPLE_PARAM) ?? undefined;
+  const compressed = params.get(CODE_PARAM);
+  let code: string | undefined;
+  if (compressed) {
+    try {
+      code = await decompressText(compressed);
+    } catch (error) {
+      console.warn("Failed to decompress shared code:", error);
+    }
+  }
+  if (!example && !code) return null;
+
+  const values: Record<string, VariableValue> = {};
+  for (const [param, text] of params) {
+    if (!param.startsWith(VALUE_PREFIX)) continue;
+    const value = parseValue(text);
+    if (value !== undefined) values[param.slice(VALUE_PREFIX.length)] = value;
+  }
+  return { example, code, values };
+}
+
+/**
+ * Create a link to the current page with the state in its hash
+ */
+export async function createShareLink(state: ShareState): Promise<string> {
+  const url = new URL(window.location.href);
+  url.hash = await encodeShareState(state);
+  return url.toString();
+}
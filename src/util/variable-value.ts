@@ -0,0 +1,101 @@
+import { VariableValue } from "../types/variable";
+
+/**
+ * Check whether a variable value is a scalar
+ */
+export const isScalarValue = (
+  value: VariableValue | undefined
+): value is number => typeof value === "number";
+
+/**
+ * Check whether a variable value is a vector (a flat array of numbers)
+ */
+export const isVectorValue = (
+  value: VariableValue | undefined
+): value is number[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "number");
+
+/**
+ * Check whether a variable value is a matrix (an array of rows)
+ */
+export const isMatrixValue = (
+  value: VariableValue | undefined
+): value is number[][] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every((row) => Array.isArray(row));
+
+/**
+ * Read a scalar from a variable value
+ * @param value - The variable value
+ * @param fallback - Returned when the value is missing or not a scalar
+ */
+export const toScalar = (
+  value: VariableValue | undefined,
+  fallback: number = 0
+): number => (typeof value === "number" ? value : fallback);
+
+/**
+ * Check whether a computed value is a usable variable value, i.e. a number
+ * or a vector/matrix of numbers, none of which is NaN
+ */
+export const isValidValue = (value: unknown): value is VariableValue => {
+  if (typeof value === "number") return !isNaN(value);
+  if (!Array.isArray(value) || value.length === 0) return false;
+  return value.every((item) =>
+    Array.isArray(item)
+      ? item.every((cell) => typeof cell === "number" && !isNaN(cell))
+      : typeof item === "number" && !isNaN(item)
+  );
+};
+
+/**
+ * Convert a math.js result (number, array or Matrix) into a variable value
+ * @returns The variable value or null if the result is not numeric
+ */
+export const fromMathValue = (result: unknown): VariableValue | null => {
+  const value =
+    result && typeof result === "object" && "toArray" in result
+      ? (result as { toArray: () => unknown }).toArray()
+      : result;
+  return isValidValue(value) ? value : null;
+};
+
+/**
+ * Get the shape of a value: [] for scalars, [n] for vectors and
+ * [rows, columns] for matrices
+ */
+export const getValueShape = (value: VariableValue): number[] => {
+  if (isMatrixValue(value)) return [value.length, value[0].length];
+  if (Array.isArray(value)) return [value.length];
+  return [];
+};
+
+/**
+ * Create a zero-filled value with the given dimensions
+ * @param dimensions - [n] for a vector, [rows, columns] for a matrix
+ */
+export const createZeroValue = (dimensions: number[] = []): VariableValue => {
+  if (dimensions.length === 1) return Array(dimensions[0]).fill(0);
+  if (dimensions.length === 2) {
+    return Array.from({ length: dimensions[0] }, () =>
+      Array(dimensions[1]).fill(0)
+    );
+  }
+  return 0;
+};
+
+/**
+ * Format a value as LaTeX, rendering vectors as column vectors and matrices
+ * with \begin{bmatrix}
+ */
+export const formatValueLatex = (
+  value: VariableValue,
+  precision: number
+): string => {
+  if (typeof value === "number") return value.toFixed(precision);
+  const rows = isMatrixValue(value)
+    ? value.map((row) => row.map((cell) => cell.toFixed(precision)).join(" & "))
+    : (value as number[]).map((item) => item.toFixed(precision));
+  return `\\begin{bmatrix} ${rows.join(" \\\\ ")} \\end{bmatrix}`;
+};
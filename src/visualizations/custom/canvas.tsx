@@ -2,8 +2,9 @@ import React, { useCallback, useEffect, useState } from "react";
 
 import { reaction, runInAction } from "mobx";
 
-import { computationStore } from "../../api/computation";
+import { useFormulizeStores } from "../../store/FormulizeStores";
 import { IContext, ICustom } from "../../types/custom";
+import { VariableValue } from "../../types/variable";
 import {
   getVariableValue,
   updateVariable,
@@ -31,37 +32,41 @@ const ErrorDisplay: React.FC<{ error: string }> = ({ error }) => (
  * Re-renders when variable values change but avoids infinite loops
  */
 const Canvas: React.FC<CanvasProps> = ({ config }) => {
-  const [variables, setVariables] = useState<Record<string, number>>({});
+  const { computationStore } = useFormulizeStores();
+  const [variables, setVariables] = useState<Record<string, VariableValue>>({});
   const { component, update = {} } = config;
 
   // Create stable callback functions
   const updateVariableCallback = useCallback(
-    (variableName: string, value: number) => {
+    (variableName: string, value: VariableValue) => {
       try {
         if (computationStore.variables.has(variableName)) {
           runInAction(() => {
-            updateVariable(variableName, value);
+            updateVariable(variableName, value, computationStore);
           });
         }
       } catch (error) {
         console.error(`Error updating variable ${variableName}:`, error);
       }
     },
-    []
+    [computationStore]
   );
 
-  const getVariableCallback = useCallback((variableName: string) => {
-    return getVariableValue(variableName);
-  }, []);
+  const getVariableCallback = useCallback(
+    (variableName: string) => {
+      return getVariableValue(variableName, computationStore);
+    },
+    [computationStore]
+  );
 
   // Function to safely get all variables without causing loops
   const getAllVariablesSafe = useCallback(() => {
-    const vars: Record<string, number> = {};
+    const vars: Record<string, VariableValue> = {};
     computationStore.variables.forEach((variable, name) => {
       vars[name] = variable.value ?? 0;
     });
     return vars;
-  }, []);
+  }, [computationStore]);
 
   // Initial variable loading
   useEffect(() => {
@@ -87,7 +92,7 @@ const Canvas: React.FC<CanvasProps> = ({ config }) => {
     );
 
     return () => disposer();
-  }, [update.onVariableChange, getAllVariablesSafe]);
+  }, [update.onVariableChange, getAllVariablesSafe, computationStore]);
 
   // Render the component
   const renderContent = () => {
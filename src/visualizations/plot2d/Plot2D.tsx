@@ -5,13 +5,15 @@ import { observer } from "mobx-react-lite";
 
 import * as d3 from "d3";
 
-import { computationStore } from "../../api/computation";
+import { useFormulizeStores } from "../../store/FormulizeStores";
 import { type IPlot2D, type IVector } from "../../types/plot2d";
+import { type VariableValue } from "../../types/variable";
 import { addAxes, addGrid } from "./axes";
 import { PLOT2D_DEFAULTS } from "./defaults";
 import { calculatePlotDimensions, getVariableLabel } from "./utils";
 import { renderVectors } from "./vectors";
 import { renderLines } from "./lines";
+import { renderOverlays } from "./overlays";
 
 interface Plot2DProps {
   config: IPlot2D;
@@ -23,8 +25,11 @@ export interface DataPoint {
 }
 
 const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
+  const { computationStore } = useFormulizeStores();
   const svgRef = useRef<SVGSVGElement>(null);
   const tooltipRef = useRef<HTMLDivElement>(null);
+  // Stops redrawing the overlays of the last drawn plot
+  const disposeOverlaysRef = useRef<(() => void) | null>(null);
 
   // Parse configuration options with defaults
   const {
@@ -34,6 +39,10 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
     yRange = PLOT2D_DEFAULTS.yRange,
     vectors,
     lines,
+    regions,
+    referenceLines,
+    annotations,
+    tangents,
     width = PLOT2D_DEFAULTS.width,
     height = PLOT2D_DEFAULTS.height,
   } = config;
@@ -56,11 +65,16 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
 
     // Check if we have vectors or lines
     const hasVectors = vectors && vectors.length > 0;
-    const hasLines = lines && lines.length > 0 && xVar && yVar;
+    const hasLines = lines && lines.length > 0;
+    const hasOverlays = [regions, referenceLines, annotations, tangents].some(
+      (items) => items && items.length > 0
+    );
 
-    if (!hasVectors && !hasLines) return;
+    if (!hasVectors && !hasLines && !hasOverlays) return;
 
     // Clear previous graph
+    disposeOverlaysRef.current?.();
+    disposeOverlaysRef.current = null;
     d3.select(svgRef.current).selectAll("*").remove();
 
     // Create SVG container
@@ -82,8 +96,14 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
       plotWidth,
       plotHeight,
       margin,
-      xLabel: hasLines && xVar ? getVariableLabel(xVar) : "X",
-      yLabel: hasLines && yVar ? getVariableLabel(yVar) : "Y",
+      xLabel:
+        (hasLines || hasOverlays) && xVar
+          ? getVariableLabel(xVar, computationStore)
+          : "X",
+      yLabel:
+        (hasLines || hasOverlays) && yVar
+          ? getVariableLabel(yVar, computationStore)
+          : "Y",
     });
 
     // Add grid using helper function
@@ -95,6 +115,9 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
       margin,
     });
 
+    // Regions and reference lines go below the lines and vectors
+    const overlaysBelow = svg.append("g").attr("class", "plot2d-overlays");
+
     if (hasVectors) {
       // Vector mode
       const defs = svg.append("defs");
@@ -105,7 +128,8 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
         xScale,
         yScale,
         plotWidth,
-        plotHeight
+        plotHeight,
+        computationStore
       );
     } else if (hasLines) {
       // Multiple lines mode
@@ -113,20 +137,41 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
         svg,
         tooltipRef,
         lines,
-        xVar!,
-        yVar!,
+        xVar,
+        yVar,
         xScale,
         yScale,
         [xMin, xMax],
         [yMin, yMax],
         plotWidth,
         plotHeight,
-        drawPlot
+        drawPlot,
+        computationStore
+      );
+    }
+
+    if (hasOverlays) {
+      const overlaysAbove = svg.append("g").attr("class", "plot2d-overlays");
+      disposeOverlaysRef.current = renderOverlays(
+        overlaysBelow,
+        overlaysAbove,
+        config,
+        xScale,
+        yScale,
+        [xMin, xMax],
+        plotWidth,
+        plotHeight,
+        computationStore
       );
     }
   }, [
+    config,
     vectors,
     lines,
+    regions,
+    referenceLines,
+    annotations,
+    tangents,
     plotWidth,
     plotHeight,
     margin,
@@ -136,6 +181,7 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
     yMax,
     xVar,
     yVar,
+    computationStore,
   ]);
 
   // Set up reaction to re-render when any variable changes
@@ -146,7 +192,7 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
         if (computationStore.isDragging) return null;
         
         // Track all variable values for live updates
-        const allVariables: Record<string, number> = {};
+        const allVariables: Record<string, VariableValue> = {};
         for (const [id, variable] of computationStore.variables.entries()) {
           allVariables[id] = variable.value ?? 0;
         }
@@ -162,13 +208,16 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
     );
 
     return () => disposer();
-  }, [drawPlot]);
+  }, [drawPlot, computationStore]);
 
   // Re-draw when config changes
   useEffect(() => {
     drawPlot();
   }, [config, drawPlot]);
 
+  // Stop redrawing the overlays when unmounted
+  useEffect(() => () => disposeOverlaysRef.current?.(), []);
+
   return (
     <div className="formulize-plot2d" style={{ position: "relative" }}>
       <svg
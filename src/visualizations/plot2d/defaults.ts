@@ -17,3 +17,18 @@ export const VECTOR_DEFAULTS = {
   draggable: true,
   showlegend: true,
 } as const;
+
+export const LINE_DEFAULTS = {
+  samples: 100,
+  maxSamples: 2000,
+  resolution: 80,
+} as const;
+
+export const OVERLAY_DEFAULTS = {
+  regionColor: "#3b82f6",
+  regionOpacity: 0.25,
+  referenceLineColor: "#64748b",
+  tangentColor: "#f97316",
+  annotationColor: "#000",
+  fontSize: 12,
+} as const;
@@ -2,7 +2,8 @@ import { runInAction } from "mobx";
 
 import * as d3 from "d3";
 
-import { computationStore } from "../../api/computation";
+import { ComputationStore, computationStore } from "../../api/computation";
+import { toScalar } from "../../util/variable-value";
 import type { DataPoint } from "./Plot2D";
 import { formatVariableValue, getVariableLabel } from "./utils";
 
@@ -19,7 +20,8 @@ export function addInteractions(
   plotHeight: number,
   xVar?: string,
   yVar?: string,
-  onDragEnd?: () => void
+  onDragEnd?: () => void,
+  store: ComputationStore = computationStore
 ): void {
   if (!xVar || !yVar || dataPoints.length === 0) return;
 
@@ -80,8 +82,8 @@ export function addInteractions(
       const d = x0 - d0.x > d1.x - x0 ? d1 : d0;
 
       // Check if hovering near the current point
-      const currentX = computationStore.variables.get(xVar)?.value ?? 0;
-      const currentY = computationStore.variables.get(yVar)?.value ?? 0;
+      const currentX = toScalar(store.variables.get(xVar)?.value);
+      const currentY = toScalar(store.variables.get(yVar)?.value);
       const isNearCurrentPoint = Math.abs(d.x - currentX) < (xScale.domain()[1] - xScale.domain()[0]) * 0.01; // Within 1% of x range
 
       // Update variable during drag
@@ -91,11 +93,11 @@ export function addInteractions(
         
         try {
           runInAction(() => {
-            computationStore.setValue(xVar, d.x);
+            store.setValue(xVar, d.x);
           });
           
           // Update current point highlight immediately during drag
-          updateCurrentPointHighlight(svg, d, xScale, yScale, xVar, yVar);
+          updateCurrentPointHighlight(svg, d, xScale, yScale, xVar, yVar, store);
         } catch (error) {
           console.error("Error updating variable during drag:", error);
         }
@@ -108,7 +110,7 @@ export function addInteractions(
           .style("left", `${event.pageX + 10}px`)
           .style("top", `${event.pageY - 30}px`)
           .html(
-            `${getVariableLabel(xVar)}: ${formatVariableValue(Number(currentX), xVar)}<br>${getVariableLabel(yVar)}: ${formatVariableValue(Number(currentY), yVar)}`
+            `${getVariableLabel(xVar, store)}: ${formatVariableValue(Number(currentX), xVar, store)}<br>${getVariableLabel(yVar, store)}: ${formatVariableValue(Number(currentY), yVar, store)}`
           );
       } else {
         // Show focus dot during hover (not dragging, not near current point)
@@ -119,13 +121,13 @@ export function addInteractions(
           .style("left", `${event.pageX + 10}px`)
           .style("top", `${event.pageY - 30}px`)
           .html(
-            `${getVariableLabel(xVar)}: ${formatVariableValue(Number(d.x), xVar)}<br>${getVariableLabel(yVar)}: ${formatVariableValue(Number(d.y), yVar)}`
+            `${getVariableLabel(xVar, store)}: ${formatVariableValue(Number(d.x), xVar, store)}<br>${getVariableLabel(yVar, store)}: ${formatVariableValue(Number(d.y), yVar, store)}`
           );
       }
     })
     .on("mousedown", (event) => {
       runInAction(() => {
-        computationStore.setDragging(true);
+        store.setDragging(true);
       });
       isDragging = true;
       focus.style("display", null);
@@ -140,7 +142,7 @@ export function addInteractions(
       // Update the x-axis variable when user starts dragging
       try {
         runInAction(() => {
-          computationStore.setValue(xVar, x0);
+          store.setValue(xVar, x0);
         });
       } catch (error) {
         console.error("Error updating variable:", error);
@@ -148,7 +150,7 @@ export function addInteractions(
     })
     .on("mouseup", (event) => {
       runInAction(() => {
-        computationStore.setDragging(false);
+        store.setDragging(false);
       });
       isDragging = false;
       d3.select(event.currentTarget).style("cursor", "crosshair");
@@ -179,13 +181,13 @@ export function addInteractions(
           const d = x0 - d0.x > d1.x - x0 ? d1 : d0;
           
           // Check if clicking near current point
-          const currentX = computationStore.variables.get(xVar)?.value ?? 0;
+          const currentX = toScalar(store.variables.get(xVar)?.value);
           const isNearCurrentPoint = Math.abs(d.x - currentX) < (xScale.domain()[1] - xScale.domain()[0]) * 0.01;
           
           // Update the x-axis variable when user clicks
           try {
             runInAction(() => {
-              computationStore.setValue(xVar, d.x);
+              store.setValue(xVar, d.x);
             });
             
             // If clicking near current point, don't show blue focus dot
@@ -209,7 +211,8 @@ function updateCurrentPointHighlight(
   xScale: d3.ScaleLinear<number, number>,
   yScale: d3.ScaleLinear<number, number>,
   xVar?: string,
-  yVar?: string
+  yVar?: string,
+  store: ComputationStore = computationStore
 ): void {
   if (!xVar || !yVar) return;
 
@@ -219,7 +222,7 @@ function updateCurrentPointHighlight(
     .attr("cy", yScale(currentPoint.y));
 
   // Update existing current point label
-  const labelText = `${getVariableLabel(xVar)}: ${formatVariableValue(Number(currentPoint.x), xVar)}, ${getVariableLabel(yVar)}: ${formatVariableValue(Number(currentPoint.y), yVar)}`;
+  const labelText = `${getVariableLabel(xVar, store)}: ${formatVariableValue(Number(currentPoint.x), xVar, store)}, ${getVariableLabel(yVar, store)}: ${formatVariableValue(Number(currentPoint.y), yVar, store)}`;
   const labelX = xScale(currentPoint.x) + 10;
   const labelY = yScale(currentPoint.y) - 10;
   
@@ -278,7 +281,8 @@ export function addCurrentPointHighlight(
   xRange: [number, number],
   yRange: [number, number],
   xVar?: string,
-  yVar?: string
+  yVar?: string,
+  store: ComputationStore = computationStore
 ): void {
   if (
     !currentPoint ||
@@ -304,7 +308,7 @@ export function addCurrentPointHighlight(
     .attr("stroke-width", 2);
 
   // Add background rectangle for label
-  const labelText = `${getVariableLabel(xVar)}: ${formatVariableValue(Number(currentPoint.x), xVar)}, ${getVariableLabel(yVar)}: ${formatVariableValue(Number(currentPoint.y), yVar)}`;
+  const labelText = `${getVariableLabel(xVar, store)}: ${formatVariableValue(Number(currentPoint.x), xVar, store)}, ${getVariableLabel(yVar, store)}: ${formatVariableValue(Number(currentPoint.y), yVar, store)}`;
   const labelX = xScale(currentPoint.x) + 10;
   const labelY = yScale(currentPoint.y) - 10;
   
@@ -1,56 +1,345 @@
 import * as d3 from "d3";
 
-import { computationStore } from "../../api/computation";
+import { ComputationStore, computationStore } from "../../api/computation";
+import { solveSingularFormula } from "../../api/computation-engines/singular-formula-solver";
 import { type ILine } from "../../types/plot2d";
-import { getVariableValue } from "../../util/computation-helpers";
+import { type VariableValue } from "../../types/variable";
+import { getVariable, getVariableValue } from "../../util/computation-helpers";
+import { getFormulaByName } from "../../util/formula-by-name";
+import { LINE_DEFAULTS } from "./defaults";
 import { addCurrentPointHighlight, addInteractions } from "./interaction";
+import { sampleCurve } from "./sampling";
 
 export interface DataPoint {
   x: number;
   y: number;
 }
 
+// Evaluates a line's formulas with some variables set, null if that fails
+export type Evaluate = (
+  values: Record<string, number>
+) => Record<string, VariableValue> | null;
+
+// Samples a curve over a parameter range, split into continuous segments
+type Sampler = (
+  range: [number, number],
+  pointAt: (t: number) => DataPoint | null
+) => DataPoint[][];
+
+// Lines are clipped to the plot area, each plot needs its own clip path id
+let clipPathCount = 0;
+
 /**
- * Function to calculate data points for a specific line
+ * Creates a function that evaluates a line with the current variable values,
+ * the line's fixed values and some of them replaced. Lines bound to a formula
+ * solve it for the targets, others evaluate all formulas.
  */
-function calculateLineDataPoints(
-  xVar: string,
-  yVar: string,
-  xMin: number,
-  xMax: number,
-  yMin: number,
-  yMax: number
-): DataPoint[] {
-  const points: DataPoint[] = [];
-  const step = (xMax - xMin) / 100; // 100 points for smooth curve
-
+export function createEvaluator(
+  line: Pick<ILine, "formula" | "values">,
+  targets: string[],
+  store: ComputationStore
+): Evaluate | null {
   // Get current variable values
-  const allVariables: Record<string, number> = {};
-  for (const [id, variable] of computationStore.variables.entries()) {
+  const allVariables: Record<string, VariableValue> = {};
+  for (const [id, variable] of store.variables.entries()) {
     allVariables[id] = variable.value ?? 0;
   }
+  Object.assign(allVariables, line.values);
+
+  if (line.formula) {
+    const expression = getFormulaByName(line.formula, store);
+    if (!expression) {
+      console.warn(`Formula not found: ${line.formula}`);
+      return null;
+    }
+    return (values) => {
+      const variables = { ...allVariables, ...values };
+      const result: Record<string, VariableValue> = {};
+      for (const target of targets) {
+        const value = solveSingularFormula(expression, variables, target);
+        if (value === null) return null;
+        result[target] = value;
+      }
+      return result;
+    };
+  }
 
   // Try to get evaluation function from store
-  const debugState = computationStore.getDebugState();
-  if (!debugState.hasFunction) return [];
-  const evalFunction = computationStore.evaluateFormula;
-  if (!evalFunction) return [];
+  const debugState = store.getDebugState();
+  if (!debugState.hasFunction) return null;
+  const evalFunction = store.evaluateFormula;
+  if (!evalFunction) return null;
 
-  for (let i = 0; i <= 100; i++) {
-    const x = xMin + i * step;
+  return (values) => {
     try {
-      const vars = { ...allVariables, [xVar]: x };
-      const result = evalFunction(vars);
-      const y = result[yVar];
-      if (typeof y === "number" && isFinite(y) && y >= yMin && y <= yMax) {
-        points.push({ x, y });
-      }
+      return evalFunction({ ...allVariables, ...values });
     } catch (error) {
       // Skip invalid points
+      return null;
     }
+  };
+}
+
+export const toNumber = (value: VariableValue | undefined): number | null =>
+  typeof value === "number" && isFinite(value) ? value : null;
+
+/**
+ * Adds a clip path of the plot area
+ * @returns The id of the clip path
+ */
+export function addClipPath(
+  svg: d3.Selection<SVGGElement, unknown, null, undefined>,
+  plotWidth: number,
+  plotHeight: number
+): string {
+  const id = `plot2d-clip-${++clipPathCount}`;
+  svg
+    .append("clipPath")
+    .attr("id", id)
+    .append("rect")
+    .attr("width", plotWidth)
+    .attr("height", plotHeight);
+  return id;
+}
+
+/**
+ * Function to calculate data points for a specific line
+ */
+function calculateLineDataPoints(
+  xVar: string,
+  yVar: string,
+  xRange: [number, number],
+  evaluate: Evaluate,
+  sample: Sampler
+): DataPoint[][] {
+  return sample(xRange, (x) => {
+    const y = toNumber(evaluate({ [xVar]: x })?.[yVar]);
+    return y !== null ? { x, y } : null;
+  });
+}
+
+/**
+ * Range of a curve's parameter: the line's parameterRange, else the range of
+ * the parameter variable, else one turn
+ */
+function getParameterRange(
+  line: ILine,
+  store: ComputationStore
+): [number, number] {
+  if (line.parameterRange) return line.parameterRange;
+  const range = line.parameter
+    ? getVariable(line.parameter, store)?.range
+    : undefined;
+  return range ?? [0, 2 * Math.PI];
+}
+
+/**
+ * Points (x(t), y(t)) of a parametric curve
+ */
+function calculateParametricPoints(
+  line: ILine,
+  xVar: string,
+  yVar: string,
+  evaluate: Evaluate,
+  sample: Sampler,
+  store: ComputationStore
+): DataPoint[][] {
+  const { parameter } = line;
+  if (!parameter) return [];
+  return sample(getParameterRange(line, store), (t) => {
+    const result = evaluate({ [parameter]: t });
+    const x = toNumber(result?.[xVar]);
+    const y = toNumber(result?.[yVar]);
+    return x !== null && y !== null ? { x, y } : null;
+  });
+}
+
+/**
+ * Points (r cos θ, r sin θ) of a polar curve r(θ)
+ */
+function calculatePolarPoints(
+  line: ILine,
+  evaluate: Evaluate,
+  sample: Sampler,
+  store: ComputationStore
+): DataPoint[][] {
+  const { parameter, radiusVar } = line;
+  if (!parameter || !radiusVar) return [];
+  return sample(getParameterRange(line, store), (theta) => {
+    const r = toNumber(evaluate({ [parameter]: theta })?.[radiusVar]);
+    return r !== null
+      ? { x: r * Math.cos(theta), y: r * Math.sin(theta) }
+      : null;
+  });
+}
+
+/**
+ * Joins segments that share end points into chains, closing loops
+ */
+function stitchSegments(segments: [string, string][]): string[][] {
+  const neighbors = new Map<string, string[]>();
+  for (const [a, b] of segments) {
+    neighbors.set(a, [...(neighbors.get(a) ?? []), b]);
+    neighbors.set(b, [...(neighbors.get(b) ?? []), a]);
   }
 
-  return points;
+  const visited = new Set<string>();
+  const walk = (start: string): string[] => {
+    const chain = [start];
+    visited.add(start);
+    let next = neighbors.get(start)?.find((edge) => !visited.has(edge));
+    while (next !== undefined) {
+      visited.add(next);
+      chain.push(next);
+      next = neighbors.get(next)?.find((edge) => !visited.has(edge));
+    }
+    return chain;
+  };
+
+  const chains: string[][] = [];
+  // Open chains start at one of their ends, loops anywhere
+  for (const [edge, adjacent] of neighbors) {
+    if (adjacent.length === 1 && !visited.has(edge)) chains.push(walk(edge));
+  }
+  for (const edge of neighbors.keys()) {
+    if (!visited.has(edge)) chains.push([...walk(edge), edge]);
+  }
+  return chains;
+}
+
+/**
+ * Points where F(x, y) = 0, traced with marching squares over a grid of the
+ * plot area
+ */
+function calculateImplicitPoints(
+  line: ILine,
+  xVar: string,
+  yVar: string,
+  [xMin, xMax]: [number, number],
+  [yMin, yMax]: [number, number],
+  evaluate: Evaluate
+): DataPoint[][] {
+  const { implicitVar } = line;
+  if (!implicitVar) return [];
+  const n = line.resolution ?? LINE_DEFAULTS.resolution;
+  const xAt = (i: number) => xMin + ((xMax - xMin) * i) / n;
+  const yAt = (j: number) => yMin + ((yMax - yMin) * j) / n;
+
+  // Values of F at the grid corners, values[i][j] at (xAt(i), yAt(j))
+  const values: (number | null)[][] = [];
+  for (let i = 0; i <= n; i++) {
+    values.push([]);
+    for (let j = 0; j <= n; j++) {
+      const result = evaluate({ [xVar]: xAt(i), [yVar]: yAt(j) });
+      values[i].push(toNumber(result?.[implicitVar]));
+    }
+  }
+
+  // Grid edges are named by their lower left corner, "h" edges run along x
+  // and "v" edges along y. The curve crosses an edge at the interpolated zero.
+  const crossings = new Map<string, DataPoint>();
+  const crossing = (edge: string, i: number, j: number): string => {
+    if (!crossings.has(edge)) {
+      const [di, dj] = edge.startsWith("h") ? [1, 0] : [0, 1];
+      const f0 = values[i][j]!;
+      const f1 = values[i + di][j + dj]!;
+      const t = f0 / (f0 - f1);
+      crossings.set(edge, {
+        x: xAt(i + di * t),
+        y: yAt(j + dj * t),
+      });
+    }
+    return edge;
+  };
+
+  const segments: [string, string][] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      const corners = [
+        values[i][j],
+        values[i + 1][j],
+        values[i + 1][j + 1],
+        values[i][j + 1],
+      ];
+      if (corners.some((value) => value === null)) continue;
+      const [a, b, c, d] = (corners as number[]).map((value) => value >= 0);
+      const bottom = a !== b ? crossing(`h${i},${j}`, i, j) : null;
+      const right = b !== c ? crossing(`v${i + 1},${j}`, i + 1, j) : null;
+      const top = d !== c ? crossing(`h${i},${j + 1}`, i, j + 1) : null;
+      const left = a !== d ? crossing(`v${i},${j}`, i, j) : null;
+      const edges = [bottom, right, top, left].filter(
+        (edge): edge is string => edge !== null
+      );
+
+      if (edges.length === 2) {
+        segments.push([edges[0], edges[1]]);
+      } else if (edges.length === 4) {
+        // Saddle: the value at the center decides which corners connect
+        const center =
+          (corners as number[]).reduce((sum, value) => sum + value, 0) / 4;
+        if (center >= 0 === a) {
+          segments.push([bottom!, right!], [top!, left!]);
+        } else {
+          segments.push([left!, bottom!], [right!, top!]);
+        }
+      }
+    }
+  }
+
+  return stitchSegments(segments).map((chain) =>
+    chain.map((edge) => crossings.get(edge)!)
+  );
+}
+
+interface LegendEntry {
+  name: string;
+  color: string;
+  lineWidth: number;
+}
+
+/**
+ * Adds a legend of the named lines to the top right corner of the plot
+ */
+function addLegend(
+  svg: d3.Selection<SVGGElement, unknown, null, undefined>,
+  entries: LegendEntry[],
+  plotWidth: number
+): void {
+  if (entries.length === 0) return;
+  const rowHeight = 18;
+  const legend = svg.append("g").attr("class", "plot2d-legend");
+  const background = legend
+    .append("rect")
+    .attr("fill", "white")
+    .attr("fill-opacity", 0.9)
+    .attr("stroke", "#e2e8f0")
+    .attr("rx", 4);
+
+  entries.forEach((entry, index) => {
+    const y = 14 + index * rowHeight;
+    legend
+      .append("line")
+      .attr("x1", 8)
+      .attr("x2", 28)
+      .attr("y1", y)
+      .attr("y2", y)
+      .attr("stroke", entry.color)
+      .attr("stroke-width", entry.lineWidth);
+    legend
+      .append("text")
+      .attr("x", 34)
+      .attr("y", y + 4)
+      .attr("font-size", "12px")
+      .attr("font-family", "Arial, sans-serif")
+      .text(entry.name);
+  });
+
+  const bbox = (legend.node() as SVGGElement | null)?.getBBox();
+  const width = (bbox?.width ?? 0) + 16;
+  background
+    .attr("width", width)
+    .attr("height", entries.length * rowHeight + 10);
+  legend.attr("transform", `translate(${plotWidth - width - 8},8)`);
 }
 
 /**
@@ -60,24 +349,28 @@ export function renderLines(
   svg: d3.Selection<SVGGElement, unknown, null, undefined>,
   tooltipRef: React.RefObject<HTMLDivElement>,
   lines: ILine[],
-  xVar: string,
-  yVar: string,
+  xVar: string | undefined,
+  yVar: string | undefined,
   xScale: d3.ScaleLinear<number, number>,
   yScale: d3.ScaleLinear<number, number>,
   xRange: [number, number],
   yRange: [number, number],
   plotWidth: number,
   plotHeight: number,
-  onDragEnd?: () => void
+  onDragEnd?: () => void,
+  store: ComputationStore = computationStore
 ): void {
   const [xMin, xMax] = xRange;
   const [yMin, yMax] = yRange;
 
-  // Create line generator
+  // Create line generator. Points far outside the plot area, e.g. near
+  // poles, are kept within a plot size of it.
+  const clamp = (value: number, size: number) =>
+    Math.max(-size, Math.min(2 * size, value));
   const lineGenerator = d3
     .line<DataPoint>()
-    .x((d) => xScale(d.x))
-    .y((d) => yScale(d.y))
+    .x((d) => clamp(xScale(d.x), plotWidth))
+    .y((d) => clamp(yScale(d.y), plotHeight))
     .curve(d3.curveBasis);
 
   const colors = [
@@ -90,25 +383,105 @@ export function renderLines(
     "#f97316",
   ];
 
+  // Curves may leave the plot area
+  const clipPathId = addClipPath(svg, plotWidth, plotHeight);
+
+  // The current values lie on explicit and parametric curves without fixed
+  // values. The first of them shows the current point, and can be dragged
+  // along if it is explicit.
+  const primaryLine = lines.findIndex(
+    (line) =>
+      !line.values &&
+      (line.curve ?? "explicit") !== "implicit" &&
+      line.curve !== "polar"
+  );
+  const legend: LegendEntry[] = [];
+
   lines.forEach((lineConfig, index) => {
-    const points = calculateLineDataPoints(xVar, yVar, xMin, xMax, yMin, yMax);
+    const curve = lineConfig.curve ?? "explicit";
+    const lineXVar = lineConfig.xVar ?? xVar;
+    const lineYVar = lineConfig.yVar ?? yVar;
+    const targets = {
+      explicit: [lineYVar],
+      parametric: [lineXVar, lineYVar],
+      implicit: [lineConfig.implicitVar],
+      polar: [lineConfig.radiusVar],
+    }[curve].filter((target): target is string => !!target);
+    const evaluate = createEvaluator(lineConfig, targets, store);
+    if (!evaluate) return;
 
-    if (points.length > 0) {
+    const budget = {
+      samples: lineConfig.samples ?? LINE_DEFAULTS.samples,
+      maxSamples: lineConfig.maxSamples ?? LINE_DEFAULTS.maxSamples,
+    };
+    const sample: Sampler = (range, pointAt) =>
+      sampleCurve(
+        range,
+        pointAt,
+        (point) => [xScale(point.x), yScale(point.y)],
+        [plotWidth, plotHeight],
+        budget
+      );
+
+    let segments: DataPoint[][] = [];
+    if (curve === "polar") {
+      segments = calculatePolarPoints(lineConfig, evaluate, sample, store);
+    } else if (lineXVar && lineYVar) {
+      if (curve === "parametric") {
+        segments = calculateParametricPoints(
+          lineConfig,
+          lineXVar,
+          lineYVar,
+          evaluate,
+          sample,
+          store
+        );
+      } else if (curve === "implicit") {
+        segments = calculateImplicitPoints(
+          lineConfig,
+          lineXVar,
+          lineYVar,
+          xRange,
+          yRange,
+          evaluate
+        );
+      } else {
+        segments = calculateLineDataPoints(
+          lineXVar,
+          lineYVar,
+          xRange,
+          evaluate,
+          sample
+        );
+      }
+    }
+    segments = segments.filter((segment) => segment.length > 1);
+
+    if (segments.length > 0) {
       const color = lineConfig.color || colors[index % colors.length];
       const lineWidth = lineConfig.lineWidth || 2;
 
-      // Add the line path
+      // Add the line paths
       svg
-        .append("path")
-        .datum(points)
+        .append("g")
+        .attr("clip-path", `url(#${clipPathId})`)
+        .selectAll("path")
+        .data(segments)
+        .join("path")
         .attr("fill", "none")
         .attr("stroke", color)
         .attr("stroke-width", lineWidth)
         .attr("d", lineGenerator);
 
-      // Add current point highlight for each line
-      const currentX = getVariableValue(xVar);
-      const currentY = getVariableValue(yVar);
+      if (lineConfig.name && lineConfig.showInLegend !== false) {
+        legend.push({ name: lineConfig.name, color, lineWidth });
+      }
+
+      if (index !== primaryLine || !lineXVar || !lineYVar) return;
+
+      // Add current point highlight
+      const currentX = getVariableValue(lineXVar, store);
+      const currentY = getVariableValue(lineYVar, store);
       const currentPointData = {
         x:
           typeof currentX === "number"
@@ -127,25 +500,29 @@ export function renderLines(
         yScale,
         [xMin, xMax],
         [yMin, yMax],
-        xVar,
-        yVar
+        lineXVar,
+        lineYVar,
+        store
       );
 
-      // Add interactions for the first line (to avoid conflicts)
-      if (index === 0) {
+      // Add interactions (to one line only, to avoid conflicts)
+      if (curve === "explicit") {
         addInteractions(
           svg,
           tooltipRef,
-          points,
+          segments.flat().filter((point) => point.y >= yMin && point.y <= yMax),
           xScale,
           yScale,
           plotWidth,
           plotHeight,
-          xVar,
-          yVar,
-          onDragEnd
+          lineXVar,
+          lineYVar,
+          onDragEnd,
+          store
         );
       }
     }
   });
+
+  addLegend(svg, legend, plotWidth);
 }
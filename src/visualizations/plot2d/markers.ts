@@ -36,6 +36,7 @@ export function getMarkerUrl(markerId: string): string {
 
 /**
  * Renders point markers (circles) at specified data points
+ * @returns The markers, bound to their points
  */
 export function renderPointMarkers(
   svg: d3.Selection<SVGGElement, unknown, null, undefined>,
@@ -44,15 +45,16 @@ export function renderPointMarkers(
   yScale: d3.ScaleLinear<number, number>,
   color: string,
   markerSize: number = 4
-): void {
-  vectorData.forEach((point) => {
-    svg
-      .append("circle")
-      .attr("cx", xScale(point.x))
-      .attr("cy", yScale(point.y))
-      .attr("r", markerSize)
-      .attr("fill", color)
-      .attr("stroke", color)
-      .attr("stroke-width", 1);
-  });
+) {
+  return svg
+    .selectAll(null)
+    .data(vectorData)
+    .enter()
+    .append("circle")
+    .attr("cx", (point) => xScale(point.x))
+    .attr("cy", (point) => yScale(point.y))
+    .attr("r", markerSize)
+    .attr("fill", color)
+    .attr("stroke", color)
+    .attr("stroke-width", 1);
 }
\ No newline at end of file
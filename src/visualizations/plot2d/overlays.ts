@@ -0,0 +1,321 @@
+import { reaction } from "mobx";
+
+import * as d3 from "d3";
+
+import { ComputationStore, computationStore } from "../../api/computation";
+import {
+  type IAnnotation,
+  type IPlot2D,
+  type IReferenceLine,
+  type IRegion,
+  type ITangent,
+} from "../../types/plot2d";
+import { OVERLAY_DEFAULTS } from "./defaults";
+import { addClipPath, createEvaluator, toNumber } from "./lines";
+import { formatVariableValue, getVariablePrecision } from "./utils";
+
+type Group = d3.Selection<SVGGElement, unknown, null, undefined>;
+
+interface OverlayContext {
+  xVar?: string;
+  yVar?: string;
+  xScale: d3.ScaleLinear<number, number>;
+  yScale: d3.ScaleLinear<number, number>;
+  xRange: [number, number];
+  plotWidth: number;
+  plotHeight: number;
+  clipPathId: string;
+  store: ComputationStore;
+}
+
+const REGION_SAMPLES = 200;
+
+/**
+ * Resolves a number or the name of a variable to a number
+ */
+const resolveValue = (
+  value: number | string | undefined,
+  store: ComputationStore
+): number | null =>
+  typeof value === "string"
+    ? toNumber(store.variables.get(value)?.value)
+    : value ?? null;
+
+const addLabel = (
+  group: Group,
+  text: string,
+  x: number,
+  y: number,
+  color: string,
+  anchor: "start" | "middle" | "end" = "start",
+  fontSize: number = OVERLAY_DEFAULTS.fontSize
+) =>
+  group
+    .append("text")
+    .attr("x", x)
+    .attr("y", y)
+    .attr("fill", color)
+    .attr("text-anchor", anchor)
+    .attr("font-size", `${fontSize}px`)
+    .attr("font-family", "Arial, sans-serif")
+    .text(text);
+
+/**
+ * Shades the area between a curve and the x-axis or another curve, labelled
+ * with its integral
+ */
+function renderRegion(
+  group: Group,
+  region: IRegion,
+  context: OverlayContext
+): void {
+  const { xVar, xScale, yScale, xRange, plotHeight, clipPathId, store } =
+    context;
+  const yVar = region.yVar ?? context.yVar;
+  if (!xVar || !yVar) return;
+  const { lowerVar } = region;
+  // Curves bound to formulas are solved separately, otherwise one evaluation
+  // gives both
+  const separate = !!lowerVar && !!(region.formula || region.lowerFormula);
+  const evaluateTop = createEvaluator(
+    region,
+    lowerVar && !separate ? [yVar, lowerVar] : [yVar],
+    store
+  );
+  const evaluateBottom =
+    lowerVar && separate
+      ? createEvaluator({ formula: region.lowerFormula }, [lowerVar], store)
+      : evaluateTop;
+  if (!evaluateTop || !evaluateBottom) return;
+
+  const from = resolveValue(region.from, store) ?? xRange[0];
+  const to = resolveValue(region.to, store) ?? xRange[1];
+  const [start, end] = from <= to ? [from, to] : [to, from];
+
+  const points = Array.from({ length: REGION_SAMPLES + 1 }, (_, i) => {
+    const x = start + ((end - start) * i) / REGION_SAMPLES;
+    const result = evaluateTop({ [xVar]: x });
+    const lower = separate ? evaluateBottom({ [xVar]: x }) : result;
+    return {
+      x,
+      top: toNumber(result?.[yVar]),
+      bottom: lowerVar ? toNumber(lower?.[lowerVar]) : 0,
+    };
+  });
+
+  // Trapezoid rule over the parts where both curves are defined, negative
+  // when the limits are reversed
+  let area = 0;
+  for (let i = 1; i < points.length; i++) {
+    const [a, b] = [points[i - 1], points[i]];
+    if (a.top === null || a.bottom === null) continue;
+    if (b.top === null || b.bottom === null) continue;
+    area += ((b.x - a.x) * (a.top - a.bottom + (b.top - b.bottom))) / 2;
+  }
+  if (from > to) area = -area;
+
+  // Points far outside the plot area are kept within a plot height of it
+  const clampY = (y: number) =>
+    Math.max(-plotHeight, Math.min(2 * plotHeight, yScale(y)));
+  const areaGenerator = d3
+    .area<(typeof points)[number]>()
+    .defined((d) => d.top !== null && d.bottom !== null)
+    .x((d) => xScale(d.x))
+    .y0((d) => clampY(d.bottom!))
+    .y1((d) => clampY(d.top!));
+
+  const color = region.color ?? OVERLAY_DEFAULTS.regionColor;
+  group
+    .append("path")
+    .datum(points)
+    .attr("clip-path", `url(#${clipPathId})`)
+    .attr("fill", color)
+    .attr("fill-opacity", region.opacity ?? OVERLAY_DEFAULTS.regionOpacity)
+    .attr("stroke", "none")
+    .attr("d", areaGenerator);
+
+  const middle = points[Math.floor(REGION_SAMPLES / 2)];
+  if (
+    region.showArea !== false &&
+    middle.top !== null &&
+    middle.bottom !== null
+  ) {
+    const precision = getVariablePrecision(yVar, store);
+    addLabel(
+      group,
+      `${region.name ?? "Area"} = ${area.toFixed(precision)}`,
+      xScale(middle.x),
+      clampY((middle.top + middle.bottom) / 2),
+      "#000",
+      "middle"
+    );
+  }
+}
+
+/**
+ * Draws a vertical or horizontal line across the plot area
+ */
+function renderReferenceLine(
+  group: Group,
+  line: IReferenceLine,
+  context: OverlayContext
+): void {
+  const { xScale, yScale, plotWidth, plotHeight, store } = context;
+  const value = resolveValue(line.value, store);
+  if (value === null) return;
+  const vertical = line.orientation === "vertical";
+  const position = vertical ? xScale(value) : yScale(value);
+  if (position < 0 || position > (vertical ? plotWidth : plotHeight)) return;
+
+  const color = line.color ?? OVERLAY_DEFAULTS.referenceLineColor;
+  group
+    .append("line")
+    .attr("x1", vertical ? position : 0)
+    .attr("x2", vertical ? position : plotWidth)
+    .attr("y1", vertical ? 0 : position)
+    .attr("y2", vertical ? plotHeight : position)
+    .attr("stroke", color)
+    .attr("stroke-width", line.lineWidth ?? 1.5)
+    .attr("stroke-dasharray", line.dashed === false ? "none" : "6,4");
+
+  if (line.label) {
+    if (vertical) {
+      addLabel(group, line.label, position + 4, 14, color);
+    } else {
+      addLabel(group, line.label, plotWidth - 4, position - 4, color, "end");
+    }
+  }
+}
+
+/**
+ * Draws the tangent of a curve at the current value of the plot's xVar,
+ * labelled with its slope
+ */
+function renderTangent(
+  group: Group,
+  tangent: ITangent,
+  context: OverlayContext
+): void {
+  const { xVar, xScale, yScale, xRange, clipPathId, store } = context;
+  const yVar = tangent.yVar ?? context.yVar;
+  if (!xVar || !yVar) return;
+  const evaluate = createEvaluator(tangent, [yVar], store);
+  const x0 = resolveValue(xVar, store);
+  if (!evaluate || x0 === null) return;
+
+  // Central difference
+  const f = (x: number) => toNumber(evaluate({ [xVar]: x })?.[yVar]);
+  const h = (xRange[1] - xRange[0]) * 1e-5;
+  const [y0, before, after] = [f(x0), f(x0 - h), f(x0 + h)];
+  if (y0 === null || before === null || after === null) return;
+  const slope = (after - before) / (2 * h);
+  const yAt = (x: number) => y0 + slope * (x - x0);
+
+  const color = tangent.color ?? OVERLAY_DEFAULTS.tangentColor;
+  group
+    .append("line")
+    .attr("clip-path", `url(#${clipPathId})`)
+    .attr("x1", xScale(xRange[0]))
+    .attr("y1", yScale(yAt(xRange[0])))
+    .attr("x2", xScale(xRange[1]))
+    .attr("y2", yScale(yAt(xRange[1])))
+    .attr("stroke", color)
+    .attr("stroke-width", tangent.lineWidth ?? 1.5);
+
+  if (tangent.showSlope !== false) {
+    const precision = getVariablePrecision(yVar, store);
+    addLabel(
+      group,
+      `slope = ${slope.toFixed(precision)}`,
+      xScale(x0) + 10,
+      yScale(y0) + 20,
+      color
+    );
+  }
+}
+
+/**
+ * Writes a text at a point, with {name} replaced by the value of the variable
+ */
+function renderAnnotation(
+  group: Group,
+  annotation: IAnnotation,
+  context: OverlayContext
+): void {
+  const { xScale, yScale, store } = context;
+  const x = resolveValue(annotation.x, store);
+  const y = resolveValue(annotation.y, store);
+  if (x === null || y === null) return;
+
+  const text = annotation.text.replace(/\{([^{}]+)\}/g, (match, name) => {
+    const value = toNumber(store.variables.get(name)?.value);
+    return value === null ? match : formatVariableValue(value, name, store);
+  });
+  addLabel(
+    group,
+    text,
+    xScale(x),
+    yScale(y),
+    annotation.color ?? OVERLAY_DEFAULTS.annotationColor,
+    annotation.anchor,
+    annotation.fontSize
+  );
+}
+
+/**
+ * Renders the regions and reference lines of a plot below its lines and
+ * vectors, and the tangents and annotations above them. Plot2D doesn't
+ * redraw while something is dragged, the overlays are redrawn here then.
+ * @returns A function that stops redrawing the overlays
+ */
+export function renderOverlays(
+  below: Group,
+  above: Group,
+  config: IPlot2D,
+  xScale: d3.ScaleLinear<number, number>,
+  yScale: d3.ScaleLinear<number, number>,
+  xRange: [number, number],
+  plotWidth: number,
+  plotHeight: number,
+  store: ComputationStore = computationStore
+): () => void {
+  // Annotations shouldn't catch the pointer events of the plot
+  above.style("pointer-events", "none");
+
+  const draw = () => {
+    below.selectAll("*").remove();
+    above.selectAll("*").remove();
+    const context: OverlayContext = {
+      xVar: config.xVar,
+      yVar: config.yVar,
+      xScale,
+      yScale,
+      xRange,
+      plotWidth,
+      plotHeight,
+      clipPathId: addClipPath(below, plotWidth, plotHeight),
+      store,
+    };
+    config.regions?.forEach((region) => renderRegion(below, region, context));
+    config.referenceLines?.forEach((line) =>
+      renderReferenceLine(below, line, context)
+    );
+    config.tangents?.forEach((tangent) =>
+      renderTangent(above, tangent, context)
+    );
+    config.annotations?.forEach((annotation) =>
+      renderAnnotation(above, annotation, context)
+    );
+  };
+
+  draw();
+  return reaction(
+    () =>
+      store.isDragging
+        ? Array.from(store.variables.values(), (variable) => variable.value)
+        : null,
+    (values) => {
+      if (values) draw();
+    }
+  );
+}
@@ -0,0 +1,208 @@
+import type { DataPoint } from "./lines";
+
+/**
+ * Sample budget of a curve: evenly spaced samples to start with, then
+ * refinement until maxSamples points have been evaluated
+ */
+export interface SampleBudget {
+  samples: number;
+  maxSamples: number;
+}
+
+// Maps a data point to pixels in the plot area
+export type ToScreen = (point: DataPoint) => [number, number];
+
+// Largest distance in pixels of a curve from the straight segments drawn
+const TOLERANCE_PX = 0.5;
+// Times an interval of the even samples may be halved
+const MAX_DEPTH = 10;
+// A jump larger than this that doesn't shrink when the interval is halved
+// is a discontinuity
+const JUMP_PX = 4;
+const JUMP_RATIO = 0.75;
+// Halvings in a row a jump next to a pole must grow in before the curve is
+// split there, after one a pole looks like a coarsely sampled curve
+const JUMP_HALVINGS = 2;
+
+interface Sample {
+  t: number;
+  point: DataPoint | null;
+  screen: [number, number] | null;
+}
+
+interface Interval {
+  a: Sample;
+  b: Sample;
+  depth: number;
+  // Screen distance between the ends of the interval this was halved from
+  parentJump: number;
+  // Halvings in a row up to the parent whose jump grew next to a pole
+  parentGrowth: number;
+  done: boolean;
+}
+
+const distance = (
+  [x1, y1]: [number, number],
+  [x2, y2]: [number, number]
+): number => Math.hypot(x2 - x1, y2 - y1);
+
+// Distance of p from the line through a and b
+const deviation = (
+  p: [number, number],
+  a: [number, number],
+  b: [number, number]
+): number => {
+  const length = distance(a, b);
+  if (length === 0) return distance(p, a);
+  return (
+    Math.abs((b[0] - a[0]) * (a[1] - p[1]) - (a[0] - p[0]) * (b[1] - a[1])) /
+    length
+  );
+};
+
+/**
+ * Samples a curve over a parameter range. Intervals where the curve bends by
+ * more than half a pixel, or where it becomes undefined, are halved, a depth
+ * at a time so that the budget is spread over the whole curve. The curve is
+ * split into segments where it is undefined and at discontinuities and
+ * poles, so that no false segments connect them.
+ */
+export function sampleCurve(
+  [tMin, tMax]: [number, number],
+  pointAt: (t: number) => DataPoint | null,
+  toScreen: ToScreen,
+  [width, height]: [number, number],
+  { samples, maxSamples }: SampleBudget
+): DataPoint[][] {
+  let remaining = maxSamples;
+  const sample = (t: number): Sample => {
+    remaining--;
+    const point = pointAt(t);
+    return { t, point, screen: point ? toScreen(point) : null };
+  };
+
+  // Both ends outside the same side of the plot area
+  const isOffscreen = (
+    [x1, y1]: [number, number],
+    [x2, y2]: [number, number]
+  ): boolean =>
+    (x1 < 0 && x2 < 0) ||
+    (x1 > width && x2 > width) ||
+    (y1 < 0 && y2 < 0) ||
+    (y1 > height && y2 > height);
+
+  const count = Math.max(1, Math.min(samples, maxSamples - 1));
+  const even = Array.from({ length: count + 1 }, (_, i) =>
+    sample(tMin + ((tMax - tMin) * i) / count)
+  );
+  let intervals: Interval[] = even.slice(1).map((b, i) => ({
+    a: even[i],
+    b,
+    depth: 0,
+    parentJump: Infinity,
+    parentGrowth: 0,
+    done: false,
+  }));
+
+  // Halvings in a row up to an interval whose jump grew
+  const countGrowth = (
+    { parentJump, parentGrowth }: Interval,
+    jump: number
+  ): number => (jump > JUMP_PX && jump > parentJump ? parentGrowth + 1 : 0);
+
+  for (let depth = 0; depth < MAX_DEPTH && remaining > 0; depth++) {
+    const next: Interval[] = [];
+    for (const interval of intervals) {
+      const { a, b } = interval;
+      if (
+        interval.done ||
+        remaining <= 0 ||
+        (!a.screen && !b.screen) ||
+        (a.screen && b.screen && isOffscreen(a.screen, b.screen))
+      ) {
+        next.push({ ...interval, done: true });
+        continue;
+      }
+      const m = sample((a.t + b.t) / 2);
+      const jump = a.screen && b.screen ? distance(a.screen, b.screen) : 0;
+      // Smooth where the midpoint is on the chord and halves the jump, keep
+      // it and stop there
+      const smooth =
+        !!a.screen &&
+        !!b.screen &&
+        !!m.screen &&
+        deviation(m.screen, a.screen, b.screen) <= TOLERANCE_PX &&
+        (jump <= JUMP_PX ||
+          Math.max(
+            distance(a.screen, m.screen),
+            distance(m.screen, b.screen)
+          ) <=
+            JUMP_RATIO * jump);
+      // Next to a pole the midpoint lies beyond both ends, and the half with
+      // the larger jump holds the pole
+      let poleHalf: 0 | 1 | null = null;
+      if (
+        a.screen &&
+        b.screen &&
+        m.screen &&
+        (m.screen[1] - a.screen[1]) * (m.screen[1] - b.screen[1]) > 0
+      ) {
+        poleHalf =
+          distance(a.screen, m.screen) > distance(m.screen, b.screen) ? 0 : 1;
+      }
+      const growth = poleHalf === null ? 0 : countGrowth(interval, jump);
+      next.push(
+        {
+          a,
+          b: m,
+          depth: depth + 1,
+          parentJump: jump,
+          parentGrowth: poleHalf === 0 ? growth : 0,
+          done: smooth,
+        },
+        {
+          a: m,
+          b,
+          depth: depth + 1,
+          parentJump: jump,
+          parentGrowth: poleHalf === 1 ? growth : 0,
+          done: smooth,
+        }
+      );
+    }
+    intervals = next;
+  }
+
+  // Poles are found at whatever depth the budget runs out, steps and other
+  // jumps at the maximum depth
+  const isBreak = (interval: Interval): boolean => {
+    const { a, b, depth, parentJump } = interval;
+    if (!a.screen || !b.screen) return true;
+    // From above the plot area to below it, or the other way round
+    if (
+      (a.screen[1] < 0 && b.screen[1] > height) ||
+      (a.screen[1] > height && b.screen[1] < 0)
+    ) {
+      return true;
+    }
+    const jump = distance(a.screen, b.screen);
+    return (
+      countGrowth(interval, jump) >= JUMP_HALVINGS ||
+      (depth === MAX_DEPTH && jump > JUMP_PX && jump > JUMP_RATIO * parentJump)
+    );
+  };
+
+  const segments: DataPoint[][] = [];
+  let segment: DataPoint[] = [];
+  const endSegment = () => {
+    if (segment.length > 0) segments.push(segment);
+    segment = [];
+  };
+  intervals.forEach((interval, index) => {
+    if (index === 0 && interval.a.point) segment.push(interval.a.point);
+    if (isBreak(interval)) endSegment();
+    if (interval.b.point) segment.push(interval.b.point);
+  });
+  endSegment();
+  return segments;
+}
@@ -1,3 +1,4 @@
+import { ComputationStore, computationStore } from "../../api/computation";
 import { getVariable } from "../../util/computation-helpers";
 
 export interface PlotDimensions {
@@ -26,8 +27,11 @@ export function calculatePlotDimensions(
 /**
  * Gets variable precision for formatting
  */
-export function getVariablePrecision(variableName: string): number {
-  const variable = getVariable(variableName);
+export function getVariablePrecision(
+  variableName: string,
+  store: ComputationStore = computationStore
+): number {
+  const variable = getVariable(variableName, store);
   return variable?.precision ?? 2;
 }
 
@@ -36,17 +40,21 @@ export function getVariablePrecision(variableName: string): number {
  */
 export function formatVariableValue(
   value: number,
-  variableName: string
+  variableName: string,
+  store: ComputationStore = computationStore
 ): string {
-  const precision = getVariablePrecision(variableName);
+  const precision = getVariablePrecision(variableName, store);
   return value.toFixed(precision);
 }
 
 /**
  * Gets variable label from computation store
  */
-export function getVariableLabel(variableName: string): string {
-  const variable = getVariable(variableName);
+export function getVariableLabel(
+  variableName: string,
+  store: ComputationStore = computationStore
+): string {
+  const variable = getVariable(variableName, store);
   return variable?.label || variableName;
 }
 
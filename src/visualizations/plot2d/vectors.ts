@@ -2,9 +2,10 @@ import { runInAction } from "mobx";
 
 import * as d3 from "d3";
 
-import { computationStore } from "../../api/computation";
+import { ComputationStore, computationStore } from "../../api/computation";
 import { IVector } from "../../types/plot2d";
 import { getVariableValue } from "../../util/computation-helpers";
+import { isMatrixValue, isVectorValue } from "../../util/variable-value";
 import { VECTOR_DEFAULTS } from "./defaults";
 import { createArrowMarker, getMarkerUrl, renderPointMarkers } from "./markers";
 
@@ -13,15 +14,62 @@ export interface VectorData {
   y: number;
 }
 
+/**
+ * Resolves the tail of a vector bound to a vector variable
+ */
+function getVectorOrigin(
+  vector: IVector,
+  store: ComputationStore = computationStore
+): VectorData {
+  if (typeof vector.origin === "string") {
+    const value = store.variables.get(vector.origin)?.value;
+    return isVectorValue(value) && value.length >= 2
+      ? { x: value[0], y: value[1] }
+      : { x: 0, y: 0 };
+  }
+  const [x, y] = vector.origin ?? [0, 0];
+  return { x, y };
+}
+
+/**
+ * Processes the data of a vector bound to a vector or matrix variable
+ */
+function processVariableVectorData(
+  vector: IVector,
+  variable: string,
+  store: ComputationStore = computationStore
+): VectorData[] {
+  const value = store.variables.get(variable)?.value;
+
+  // Each row of a matrix is a point
+  if (isMatrixValue(value)) {
+    return value
+      .filter((row) => row.length >= 2)
+      .map((row) => ({ x: row[0], y: row[1] }));
+  }
+
+  if (!isVectorValue(value) || value.length < 2) return [];
+  const origin = getVectorOrigin(vector, store);
+  const tip = { x: origin.x + value[0], y: origin.y + value[1] };
+  return vector.shape === "point" ? [tip] : [origin, tip];
+}
+
 /**
  * Processes vector data by resolving variable references
  */
-export function processVectorData(vector: IVector): VectorData[] {
-  const xData = vector.x.map((val) =>
-    typeof val === "string" ? getVariableValue(val) : val
+export function processVectorData(
+  vector: IVector,
+  store: ComputationStore = computationStore
+): VectorData[] {
+  if (vector.variable) {
+    return processVariableVectorData(vector, vector.variable, store);
+  }
+
+  const xData = (vector.x ?? []).map((val) =>
+    typeof val === "string" ? getVariableValue(val, store) : val
   );
-  const yData = vector.y.map((val) =>
-    typeof val === "string" ? getVariableValue(val) : val
+  const yData = (vector.y ?? []).map((val) =>
+    typeof val === "string" ? getVariableValue(val, store) : val
   );
 
   return xData.map((x, i) => ({
@@ -30,24 +78,130 @@ export function processVectorData(vector: IVector): VectorData[] {
   }));
 }
 
+// Writes a dragged position back to the variables a point is bound to
+type PointWriter = (point: VectorData) => void;
+
+const isInputVariable = (
+  name: string,
+  store: ComputationStore = computationStore
+): boolean => store.variables.get(name)?.type === "input";
+
 /**
- * Extracts variable names from vector config
+ * Clamps a value to a variable's range and snaps it to the variable's step
  */
-function getVariableNames(vector: IVector): {
-  xVars: string[];
-  yVars: string[];
-} {
-  const xVars = vector.x.filter(
-    (val): val is string => typeof val === "string"
-  );
-  const yVars = vector.y.filter(
-    (val): val is string => typeof val === "string"
-  );
-  return { xVars, yVars };
+function constrainValue(
+  value: number,
+  name: string,
+  store: ComputationStore = computationStore
+): number {
+  const variable = store.variables.get(name);
+  const [min, max] = variable?.range ?? [-Infinity, Infinity];
+  let constrained = Math.max(min, Math.min(max, value));
+  if (variable?.step) {
+    const base = isFinite(min) ? min : 0;
+    constrained =
+      base + Math.round((constrained - base) / variable.step) * variable.step;
+    if (constrained > max) constrained -= variable.step;
+  }
+  return parseFloat(constrained.toPrecision(12));
+}
+
+/**
+ * Finds how each point of a vector bound to a vector or matrix variable is
+ * written back
+ */
+function getVariablePointWriters(
+  vector: IVector,
+  variable: string,
+  pointCount: number,
+  store: ComputationStore = computationStore
+): (PointWriter | null)[] {
+  const value = store.variables.get(variable)?.value;
+  const editable = isInputVariable(variable, store);
+
+  // Each row of a matrix is a point
+  if (isMatrixValue(value)) {
+    const rows = value
+      .map((row, index) => ({ row, index }))
+      .filter(({ row }) => row.length >= 2);
+    return rows.map(({ index }) =>
+      editable
+        ? (point) => {
+            const current = store.variables.get(variable)?.value;
+            if (!isMatrixValue(current)) return;
+            store.setValue(
+              variable,
+              current.map((row, rowIndex) =>
+                rowIndex === index
+                  ? [
+                      constrainValue(point.x, variable, store),
+                      constrainValue(point.y, variable, store),
+                      ...row.slice(2),
+                    ]
+                  : row
+              )
+            );
+          }
+        : null
+    );
+  }
+
+  if (!isVectorValue(value)) return [];
+  // The tip sets the vector relative to its tail
+  const tip: PointWriter | null = editable
+    ? (point) => {
+        const current = store.variables.get(variable)?.value;
+        const origin = getVectorOrigin(vector, store);
+        store.setValue(variable, [
+          constrainValue(point.x - origin.x, variable, store),
+          constrainValue(point.y - origin.y, variable, store),
+          ...(isVectorValue(current) ? current.slice(2) : []),
+        ]);
+      }
+    : null;
+  if (pointCount < 2) return [tip];
+
+  // The tail moves the whole vector when it is a variable
+  const origin = vector.origin;
+  const tail: PointWriter | null =
+    typeof origin === "string" && isInputVariable(origin, store)
+      ? (point) =>
+          store.setValue(origin, [
+            constrainValue(point.x, origin, store),
+            constrainValue(point.y, origin, store),
+          ])
+      : null;
+  return [tail, tip];
+}
+
+/**
+ * Finds how each point of a vector is written back when it is dragged, null
+ * for points that aren't bound to input variables
+ */
+export function getPointWriters(
+  vector: IVector,
+  pointCount: number,
+  store: ComputationStore = computationStore
+): (PointWriter | null)[] {
+  if (vector.variable) {
+    return getVariablePointWriters(vector, vector.variable, pointCount, store);
+  }
+
+  return Array.from({ length: pointCount }, (_, index) => {
+    const [xVar, yVar] = [vector.x?.[index], vector.y?.[index]].map((item) =>
+      typeof item === "string" && isInputVariable(item, store) ? item : null
+    );
+    if (!xVar && !yVar) return null;
+    return (point: VectorData) => {
+      if (xVar) store.setValue(xVar, constrainValue(point.x, xVar, store));
+      if (yVar) store.setValue(yVar, constrainValue(point.y, yVar, store));
+    };
+  });
 }
 
 /**
  * Renders a single vector on the SVG
+ * @returns A function that moves the vector to the current variable values
  */
 export function renderVector(
   svg: d3.Selection<SVGGElement, unknown, null, undefined>,
@@ -57,27 +211,15 @@ export function renderVector(
   xScale: d3.ScaleLinear<number, number>,
   yScale: d3.ScaleLinear<number, number>,
   plotWidth?: number,
-  plotHeight?: number
-): void {
-  const vectorData = processVectorData(vector);
+  plotHeight?: number,
+  store: ComputationStore = computationStore,
+  onDrag?: () => void
+): () => void {
+  const vectorData = processVectorData(vector, store);
   const shape = vector.shape || VECTOR_DEFAULTS.shape;
   const color = vector.color || VECTOR_DEFAULTS.color;
-  const isDraggable = vector.draggable !== false && shape === "arrow";
-
-  // Handle point shape differently
-  if (shape === "point") {
-    renderPointMarkers(svg, vectorData, xScale, yScale, color, vector.markerSize || 4);
-    return; // Exit early for points
-  }
-
-  // Create arrow marker if needed
-  if (shape === "arrow") {
-    createArrowMarker(defs, {
-      id: `arrowhead-${vectorIndex}`,
-      color,
-      size: vector.markerSize || VECTOR_DEFAULTS.markerSize,
-    });
-  }
+  const lineWidth = vector.lineWidth || VECTOR_DEFAULTS.lineWidth;
+  const group = svg.append("g").attr("class", `vector-${vectorIndex}`);
 
   // Create line generator
   const line = d3
@@ -85,135 +227,122 @@ export function renderVector(
     .x((d) => xScale(d.x))
     .y((d) => yScale(d.y));
 
-  // Add the path
-  const path = svg
-    .append("path")
-    .datum(vectorData)
-    .attr("fill", "none")
-    .attr("stroke", color)
-    .attr("stroke-width", vector.lineWidth || VECTOR_DEFAULTS.lineWidth)
-    .attr("stroke-dasharray", shape === "dash" ? "5,5" : "none")
-    .attr(
-      "marker-end",
-      shape === "arrow" ? getMarkerUrl(`arrowhead-${vectorIndex}`) : "none"
+  let path: d3.Selection<SVGPathElement, VectorData[], null, undefined> | null =
+    null;
+  let markers: ReturnType<typeof renderPointMarkers> | null = null;
+
+  if (shape === "point") {
+    markers = renderPointMarkers(group, vectorData, xScale, yScale, color, vector.markerSize || 4);
+  } else {
+    // Create arrow marker if needed
+    if (shape === "arrow") {
+      createArrowMarker(defs, {
+        id: `arrowhead-${vectorIndex}`,
+        color,
+        size: vector.markerSize || VECTOR_DEFAULTS.markerSize,
+      });
+    }
+
+    // Add the path
+    path = group
+      .append("path")
+      .datum(vectorData)
+      .attr("fill", "none")
+      .attr("stroke", color)
+      .attr("stroke-width", lineWidth)
+      .attr("stroke-dasharray", shape === "dash" ? "5,5" : "none")
+      .attr(
+        "marker-end",
+        shape === "arrow" ? getMarkerUrl(`arrowhead-${vectorIndex}`) : "none"
+      )
+      .attr("d", line);
+  }
+
+  // Add invisible drag handles at the points bound to input variables
+  const writers =
+    vector.draggable !== false
+      ? getPointWriters(vector, vectorData.length, store)
+      : [];
+  const draggable = writers
+    .map((writer, index) => ({ writer, index }))
+    .filter(
+      (item): item is { writer: PointWriter; index: number } =>
+        item.writer !== null && item.index < vectorData.length
+    );
+  const handles = group
+    .selectAll<SVGCircleElement, { writer: PointWriter; index: number }>(
+      "circle.drag-handle"
     )
-    .attr("d", line);
-
-  // Add drag behavior for arrows
-  if (isDraggable && vectorData.length >= 2) {
-    const { xVars, yVars } = getVariableNames(vector);
-
-    // Add invisible drag handle at the arrow tip
-    const tipData = vectorData[vectorData.length - 1];
-    const dragHandle = svg
-      .append("circle")
-      .attr("class", `drag-handle-${vectorIndex}`)
-      .attr("cx", xScale(tipData.x))
-      .attr("cy", yScale(tipData.y))
-      .attr("r", 8)
-      .attr("fill", "transparent")
-      .attr("stroke", "none")
-      .style("cursor", "move");
-
-    // Add drag behavior
-    let currentTipX = tipData.x;
-    let currentTipY = tipData.y;
-    let isDragging = false;
-    let lastMouseX = 0;
-    let lastMouseY = 0;
-
-    const drag = d3
-      .drag<SVGCircleElement, unknown>()
-      .on("start", function (event) {
-        isDragging = true;
-        // Store initial mouse position in screen coordinates
-        lastMouseX = event.sourceEvent.clientX;
-        lastMouseY = event.sourceEvent.clientY;
-        d3.select(this).attr("stroke", color).attr("stroke-width", 2);
-        path.attr(
-          "stroke-width",
-          (vector.lineWidth || VECTOR_DEFAULTS.lineWidth) + 1
-        );
-      })
-      .on("drag", function (event) {
-        if (!isDragging) return;
-
-        // Use absolute mouse coordinates instead of deltas
-        const currentMouseX = event.sourceEvent.clientX;
-        const currentMouseY = event.sourceEvent.clientY;
-
-        // Calculate our own delta from the last known mouse position
-        const deltaX = currentMouseX - lastMouseX;
-        const deltaY = currentMouseY - lastMouseY;
-
-        // Update last mouse position
-        lastMouseX = currentMouseX;
-        lastMouseY = currentMouseY;
-
-        // Get current handle position and apply our calculated delta
-        const currentHandleX = parseFloat(d3.select(this).attr("cx"));
-        const currentHandleY = parseFloat(d3.select(this).attr("cy"));
-        const newX = currentHandleX + deltaX;
-        const newY = currentHandleY + deltaY;
-
-        // Clamp to plot boundaries if dimensions are provided
-        const clampedX = plotWidth
-          ? Math.max(0, Math.min(plotWidth, newX))
-          : newX;
-        const clampedY = plotHeight
-          ? Math.max(0, Math.min(plotHeight, newY))
-          : newY;
-
-        // Update the drag handle position immediately
-        d3.select(this).attr("cx", clampedX).attr("cy", clampedY);
-
-        // Convert to data coordinates
-        const dataX = xScale.invert(clampedX);
-        const dataY = yScale.invert(clampedY);
-
-        // Update our tracked tip position
-        currentTipX = dataX;
-        currentTipY = dataY;
-
-        // Update the vector path to point to new position
-        const startPoint = vectorData[0];
-        const updatedVectorData = [startPoint, { x: dataX, y: dataY }];
-
-        const line = d3
-          .line<VectorData>()
-          .x((d) => xScale(d.x))
-          .y((d) => yScale(d.y));
-
-        path.datum(updatedVectorData).attr("d", line);
-
-        // Update variables with new tip position
-        if (xVars.length > 0 && yVars.length > 0) {
-          const endXVar = xVars[xVars.length - 1];
-          const endYVar = yVars[yVars.length - 1];
-
-          try {
-            runInAction(() => {
-              computationStore.setValue(endXVar, currentTipX);
-              computationStore.setValue(endYVar, currentTipY);
-            });
-          } catch (error) {
-            console.error("Error updating variables during drag:", error);
-          }
-        } else {
-          console.log("No variables to update:", { xVars, yVars });
-        }
-      })
-      .on("end", function () {
-        isDragging = false;
-        d3.select(this).attr("stroke", "none");
-        path.attr(
-          "stroke-width",
-          vector.lineWidth || VECTOR_DEFAULTS.lineWidth
+    .data(draggable)
+    .join("circle")
+    .attr("class", `drag-handle drag-handle-${vectorIndex}`)
+    .attr("cx", ({ index }) => xScale(vectorData[index].x))
+    .attr("cy", ({ index }) => yScale(vectorData[index].y))
+    .attr("r", 8)
+    .attr("fill", "transparent")
+    .attr("stroke", "none")
+    .style("cursor", "move");
+
+  const update = () => {
+    const data = processVectorData(vector, store);
+    path?.datum(data).attr("d", line);
+    markers
+      ?.data(data)
+      .attr("cx", (d) => xScale(d.x))
+      .attr("cy", (d) => yScale(d.y));
+    handles
+      .filter(({ index }) => index < data.length)
+      .attr("cx", ({ index }) => xScale(data[index].x))
+      .attr("cy", ({ index }) => yScale(data[index].y));
+  };
+
+  // Plot2D doesn't redraw while dragging, the dragged vectors are moved here
+  // as their variables change
+  const drag = d3
+    .drag<SVGCircleElement, { writer: PointWriter; index: number }>()
+    .container(() => svg.node() as SVGGElement)
+    .subject((event, { index }) => {
+      const data = processVectorData(vector, store)[index];
+      return data
+        ? { x: xScale(data.x), y: yScale(data.y) }
+        : { x: event.x, y: event.y };
+    })
+    .on("start", function () {
+      runInAction(() => {
+        store.setDragging(true);
+      });
+      d3.select(this).attr("stroke", color).attr("stroke-width", 2);
+      path?.attr("stroke-width", lineWidth + 1);
+    })
+    .on("drag", (event, { writer }) => {
+      // Clamp to plot boundaries if dimensions are provided
+      const x = plotWidth ? Math.max(0, Math.min(plotWidth, event.x)) : event.x;
+      const y = plotHeight
+        ? Math.max(0, Math.min(plotHeight, event.y))
+        : event.y;
+      try {
+        store.transaction(() =>
+          writer({ x: xScale.invert(x), y: yScale.invert(y) })
         );
+      } catch (error) {
+        console.error("Error updating variables during drag:", error);
+      }
+      if (onDrag) {
+        onDrag();
+      } else {
+        update();
+      }
+    })
+    .on("end", function () {
+      d3.select(this).attr("stroke", "none");
+      path?.attr("stroke-width", lineWidth);
+      runInAction(() => {
+        store.setDragging(false);
       });
+    });
 
-    dragHandle.call(drag);
-  }
+  handles.call(drag);
+  return update;
 }
 
 /**
@@ -226,18 +355,26 @@ export function renderVectors(
   xScale: d3.ScaleLinear<number, number>,
   yScale: d3.ScaleLinear<number, number>,
   plotWidth?: number,
-  plotHeight?: number
+  plotHeight?: number,
+  store: ComputationStore = computationStore
 ): void {
+  // Dragging one vector moves every vector that depends on it
+  const updates: (() => void)[] = [];
+  const updateAll = () => updates.forEach((update) => update());
   vectors.forEach((vector, index) => {
-    renderVector(
-      svg,
-      defs,
-      vector,
-      index,
-      xScale,
-      yScale,
-      plotWidth,
-      plotHeight
+    updates.push(
+      renderVector(
+        svg,
+        defs,
+        vector,
+        index,
+        xScale,
+        yScale,
+        plotWidth,
+        plotHeight,
+        store,
+        updateAll
+      )
     );
   });
 }
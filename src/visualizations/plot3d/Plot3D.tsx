@@ -13,11 +13,11 @@ import { observer } from "mobx-react-lite";
 import * as Plotly from "plotly.js-dist";
 
 import { IPlot3D } from "../../api";
-import { computationStore } from "../../api/computation";
 import {
   computeSurfaceIntersection,
   solveSingularFormula,
 } from "../../api/computation-engines/singular-formula-solver";
+import { useFormulizeStores } from "../../store/FormulizeStores";
 import { IPoint3D, ISurface } from "../../types/plot3d";
 import { getVariable, getVariableValue } from "../../util/computation-helpers";
 import { getFormulaByName } from "../../util/formula-by-name";
@@ -37,6 +37,7 @@ interface LineData {
 }
 
 const Plot3D: React.FC<Plot3DProps> = observer(({ config }) => {
+  const { computationStore } = useFormulizeStores();
   const plotRef = useRef<HTMLDivElement>(null);
   const [currentPoint, setCurrentPoint] = useState<IPoint3D | null>(null);
   const [surfacesData, setSurfacesData] = useState<ISurface[]>([]);
@@ -84,11 +85,20 @@ const Plot3D: React.FC<Plot3DProps> = observer(({ config }) => {
   }, [xMax, xMin, yMax, yMin]);
 
   // Helper function to get variable label from computation store
-  const getVariableLabel = useCallback((variableName: string): string => {
-    const varId = variableName;
-    const variable = getVariable(varId);
-    return variable?.label || variableName; // Fallback to variable name if no label
-  }, []);
+  const getVariableLabel = useCallback(
+    (variableName: string): string => {
+      const varId = variableName;
+      const variable = getVariable(varId, computationStore);
+      return variable?.label || variableName; // Fallback to variable name if no label
+    },
+    [computationStore]
+  );
+
+  // Look up formula expressions in this instance's environment
+  const getFormula = useCallback(
+    (formulaName: string) => getFormulaByName(formulaName, computationStore),
+    [computationStore]
+  );
 
   // Main calculation function for all surfaces
   const calculateSurfacesDataWrapper = useCallback(() => {
@@ -103,8 +113,9 @@ const Plot3D: React.FC<Plot3DProps> = observer(({ config }) => {
       zMin,
       zMax,
       samples,
-      getFormulaByName,
+      getFormulaByName: getFormula,
       getDefaultColorScale,
+      computationStore,
     };
 
     return getSurfaces(surfaces, params);
@@ -120,8 +131,9 @@ const Plot3D: React.FC<Plot3DProps> = observer(({ config }) => {
     zMin,
     zMax,
     samples,
-    getFormulaByName,
+    getFormula,
     getDefaultColorScale,
+    computationStore,
   ]);
 
   // Calculate line data for a specific line configuration
@@ -158,8 +170,8 @@ const Plot3D: React.FC<Plot3DProps> = observer(({ config }) => {
         const { surface1, surface2 } = surfaceIntersection;
 
         // Get the formula expressions for both surfaces
-        const surface1Formula = getFormulaByName(surface1);
-        const surface2Formula = getFormulaByName(surface2);
+        const surface1Formula = getFormula(surface1);
+        const surface2Formula = getFormula(surface2);
 
         if (!surface1Formula || !surface2Formula) {
           console.warn(
@@ -206,7 +218,7 @@ const Plot3D: React.FC<Plot3DProps> = observer(({ config }) => {
 
             // Calculate x coordinate
             if (xFormula) {
-              const xExpression = getFormulaByName(xFormula);
+              const xExpression = getFormula(xFormula);
               if (xExpression) {
                 x = solveSingularFormula(xExpression, variablesMap, xVar);
               }
@@ -216,7 +228,7 @@ const Plot3D: React.FC<Plot3DProps> = observer(({ config }) => {
 
             // Calculate y coordinate
             if (yFormula) {
-              const yExpression = getFormulaByName(yFormula);
+              const yExpression = getFormula(yFormula);
               if (yExpression) {
                 y = solveSingularFormula(yExpression, variablesMap, yVar);
               }
@@ -226,7 +238,7 @@ const Plot3D: React.FC<Plot3DProps> = observer(({ config }) => {
 
             // Calculate z coordinate
             if (zFormula) {
-              const zExpression = getFormulaByName(zFormula);
+              const zExpression = getFormula(zFormula);
               if (zExpression) {
                 z = solveSingularFormula(zExpression, variablesMap, zVar);
               }
@@ -271,7 +283,7 @@ const Plot3D: React.FC<Plot3DProps> = observer(({ config }) => {
         showInLegend,
       };
     },
-    [getFormulaByName, xMin, xMax, xVar, yVar, zVar]
+    [getFormula, computationStore, xMin, xMax, xVar, yVar, zVar]
   );
 
   // Main calculation function for all lines
@@ -304,9 +316,9 @@ const Plot3D: React.FC<Plot3DProps> = observer(({ config }) => {
       setLinesData(linesResult);
 
       // Update current point
-      const currentX = getVariableValue(xVar);
-      const currentY = getVariableValue(yVar);
-      const currentZ = getVariableValue(zVar);
+      const currentX = getVariableValue(xVar, computationStore);
+      const currentY = getVariableValue(yVar, computationStore);
+      const currentZ = getVariableValue(zVar, computationStore);
       setCurrentPoint({ x: currentX, y: currentY, z: currentZ });
     } catch (error) {
       console.error("Error calculating 3D plot data:", error);
@@ -314,7 +326,14 @@ const Plot3D: React.FC<Plot3DProps> = observer(({ config }) => {
       setLinesData([]);
       setCurrentPoint(null);
     }
-  }, [calculateSurfacesDataWrapper, calculateLinesData, xVar, yVar, zVar]);
+  }, [
+    calculateSurfacesDataWrapper,
+    calculateLinesData,
+    xVar,
+    yVar,
+    zVar,
+    computationStore,
+  ]);
 
   useEffect(() => {
     setSurfacesData([]);
@@ -327,9 +346,9 @@ const Plot3D: React.FC<Plot3DProps> = observer(({ config }) => {
   useEffect(() => {
     const disposer = reaction(
       () => {
-        const xValue = getVariableValue(xVar);
-        const yValue = getVariableValue(yVar);
-        const zValue = getVariableValue(zVar);
+        const xValue = getVariableValue(xVar, computationStore);
+        const yValue = getVariableValue(yVar, computationStore);
+        const zValue = getVariableValue(zVar, computationStore);
 
         return { xValue, yValue, zValue };
       },
@@ -358,7 +377,7 @@ const Plot3D: React.FC<Plot3DProps> = observer(({ config }) => {
     );
 
     return disposer;
-  }, [xVar, yVar, zVar, calculateDataPoints]);
+  }, [xVar, yVar, zVar, calculateDataPoints, computationStore]);
 
   // Optimized plotting effect
   useEffect(() => {
@@ -1,6 +1,7 @@
-import { computationStore } from "../../api/computation";
+import { ComputationStore } from "../../api/computation";
 import { solveSingularFormula } from "../../api/computation-engines/singular-formula-solver";
 import { IPoint3D, ISurface } from "../../types/plot3d";
+import { VariableValue } from "../../types/variable";
 import { ColorScale, resolveColor } from "./color";
 
 interface SurfaceCalculationParams {
@@ -15,12 +16,13 @@ interface SurfaceCalculationParams {
   zMax: number;
   samples: number;
   getFormulaByName: (formulaName: string) => string | null;
+  computationStore: ComputationStore;
 }
 
 // Helper function to solve equations using singular formula solver
 const solveForVariable = (
   formulaExpression: string,
-  variables: Record<string, number>,
+  variables: Record<string, VariableValue>,
   solveFor: string
 ): number | null => {
   try {
@@ -48,6 +50,7 @@ export const getSurface = (
     yMax,
     samples,
     getFormulaByName,
+    computationStore,
   } = params;
 
   const formulaExpression = getFormulaByName(surfaceConfig.formulaName);
@@ -0,0 +1,27 @@
+import { defineConfig, mergeConfig } from "vite";
+
+import baseConfig from "./vite.config";
+
+// Standalone runtime inlined into pages exported with instance.exportHTML():
+// the Formulize API as one script with its stylesheet. The files are written
+// to public/ so that the app serves them to the exporter.
+export default mergeConfig(
+  baseConfig,
+  defineConfig({
+    publicDir: false,
+    define: {
+      "process.env.NODE_ENV": JSON.stringify("production"),
+    },
+    build: {
+      outDir: "public/standalone",
+      emptyOutDir: true,
+      cssCodeSplit: false,
+      lib: {
+        entry: "src/standalone.ts",
+        name: "Formulize",
+        formats: ["iife"],
+        fileName: () => "formulize.js",
+      },
+    },
+  })
+);